@@ -1,665 +1,3596 @@
 #!/usr/bin/env node
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import fetch from "node-fetch";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { timingSafeEqual } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from "node:http";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import fetch, { Headers } from "node-fetch";
+import { AuditLog, redactSecrets } from "./utils/audit-log.js";
+import { BulkItemResult, runBulk } from "./utils/bulk.js";
+import { ChangeEntry, ChangeHistory } from "./utils/change-history.js";
+import {
+  DEFAULT_WORKSPACE_NAME,
+  formatConfig,
+  loadConfig,
+  RogerRogerConfig,
+  WorkspaceProfile,
+} from "./utils/config.js";
+import { ConfirmationStore } from "./utils/confirmation.js";
+import { parseCsv } from "./utils/csv.js";
+import {
+  findDuplicateGroups,
+  normalizeEmail,
+  normalizeName,
+  normalizePhone,
+} from "./utils/duplicates.js";
+import { ApiError } from "./utils/errors.js";
+import { EXPORT_FORMATS, ExportFormat, serializeRecords } from "./utils/export.js";
+import { matchesGlob } from "./utils/glob.js";
+import {
+  formatWithinBudget,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  projectFields,
+} from "./utils/output.js";
+import { extractCollection } from "./utils/pagination.js";
+import { ConcurrencyQueue, TokenBucket } from "./utils/rate-limiter.js";
+import {
+  assertValidRetryOptions,
+  computeBackoffDelay,
+  isIdempotentMethod,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+} from "./utils/retry.js";
+import { JsonSchema, validateSchema } from "./utils/validation.js";
+
+const MAX_ITEMS_PER_PAGE = 30;
+
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+interface ApiRequestRecord {
+  workspace: string;
+  method: string;
+  endpoint: string;
+  // 0 when no response arrived
+  status: number;
+  responseId?: string;
+  error?: string;
+}
+
+// Collects the API requests made while handling a single tool call, so the
+// audit log can record what was actually sent.
+const apiRequestLog = new AsyncLocalStorage<ApiRequestRecord[]>();
+
+// The workspace named in the current tool call's `workspace` argument, if
+// any. API requests made outside a tool call use the default workspace.
+const selectedWorkspace = new AsyncLocalStorage<string | undefined>();
+
+// A workspace profile with its own rate limit, request queue and pending
+// confirmations, since each API key is throttled separately.
+interface Workspace extends WorkspaceProfile {
+  rateLimiter: TokenBucket;
+  requestQueue: ConcurrencyQueue;
+  confirmations: ConfirmationStore;
+}
+
+// Tools that change data in RogerRoger. These are hidden and rejected in
+// read-only mode.
+const MUTATING_TOOLS = new Set([
+  "create_person",
+  "update_person",
+  "delete_person",
+  "create_task",
+  "update_task",
+  "complete_task",
+  "reopen_task",
+  "delete_task",
+  "create_organization",
+  "update_organization",
+  "delete_organization",
+  "create_list",
+  "update_list",
+  "delete_list",
+  "create_tag",
+  "update_tag",
+  "delete_tag",
+  "tag_person",
+  "untag_person",
+  "tag_organization",
+  "untag_organization",
+  "add_to_list",
+  "remove_from_list",
+  "link_person_to_organization",
+  "unlink_person_from_organization",
+  "bulk_create_people",
+  "bulk_update_people",
+  "bulk_create_organizations",
+  "bulk_delete",
+  "import_csv",
+  "merge_people",
+  "undo_change",
+]);
+
+// Record types whose updates and deletes can be undone, with the method their
+// update endpoint expects.
+const UNDOABLE_RECORDS: Record<
+  string,
+  { endpoint: string; updateMethod: string; label: string }
+> = {
+  person: { endpoint: "/people", updateMethod: "PUT", label: "Person" },
+  organization: { endpoint: "/organizations", updateMethod: "PUT", label: "Organization" },
+  list: { endpoint: "/segments", updateMethod: "PATCH", label: "List" },
+  tag: { endpoint: "/tags", updateMethod: "PATCH", label: "Tag" },
+  task: { endpoint: "/tasks", updateMethod: "PUT", label: "Task" },
+};
+
+// Fields shown for each record in a deletion preview.
+const DELETE_PREVIEW_FIELDS: Record<string, string[]> = {
+  person: ["name", "email", "phone", "company"],
+  organization: ["name", "website", "industry"],
+  list: ["title", "icon"],
+  tag: ["title", "description"],
+  task: ["title", "status", "due_date", "assignee_id"],
+};
+
+// How many records a bulk_delete preview describes before summarizing the rest.
+const BULK_PREVIEW_RECORDS = 10;
+
+// Record types bulk_delete accepts, keyed by the `type` argument.
+const BULK_DELETE_TYPES: Record<string, string> = {
+  people: "person",
+  organizations: "organization",
+  lists: "list",
+  tags: "tag",
+  tasks: "task",
+};
+
+const BULK_MAX_ITEMS = 500;
+
+// Person fields holding links to other records, which merge_people combines
+// instead of choosing one value.
+const MERGE_LINKED_FIELDS = ["tags", "segments", "organizations"];
+
+const MERGE_MAX_DUPLICATES = 20;
+
+// Options of the export command, besides the configuration flags.
+const EXPORT_CLI_OPTIONS = ["format", "output", "columns", "max-items", "overwrite", "workspace"];
+
+// Collections the export tool can write, keyed by the `type` argument.
+const EXPORT_ENDPOINTS: Record<string, string> = {
+  people: "/people",
+  organizations: "/organizations",
+  tasks: "/tasks",
+  lists: "/segments",
+  tags: "/tags",
+};
+
+const TASK_STATUS_OPEN = "open";
+const TASK_STATUS_COMPLETED = "completed";
+
+const RESOURCE_URI_PREFIX = "rogerroger://";
+
+// Record collections exposed as MCP resources, in the order resources/list
+// walks them.
+const RESOURCE_COLLECTIONS = [
+  { kind: "people", endpoint: "/people", label: "Person" },
+  { kind: "organizations", endpoint: "/organizations", label: "Organization" },
+  { kind: "segments", endpoint: "/segments", label: "List" },
+];
+
+const PROMPTS = [
+  {
+    name: "meeting_brief",
+    description: "Prepare a briefing for an upcoming meeting with a person",
+    arguments: [
+      {
+        name: "personId",
+        description: "The ID of the person you are meeting",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "account_review",
+    description: "Review the state of an organization account",
+    arguments: [
+      {
+        name: "organizationId",
+        description: "The ID of the organization to review",
+        required: true,
+      },
+    ],
+  },
+  {
+    name: "weekly_task_triage",
+    description: "Triage open and overdue tasks for the coming week",
+    arguments: [
+      {
+        name: "status",
+        description: `Only include tasks with this status (default: ${TASK_STATUS_OPEN})`,
+        required: false,
+      },
+    ],
+  },
+];
+
+const UPDATED_AT_FIELDS = ["updatedAt", "updated_at", "dateModified", "modifiedAt"];
+const READ_ONLY_FIELDS = new Set(["id", "createdAt", "created_at", ...UPDATED_AT_FIELDS]);
+
+/**
+ * Strip identifiers, timestamps and JSON-LD metadata from a record fetched
+ * from the API, leaving the fields that can be sent back in a request body.
+ */
+function toWritableFields(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record ?? {}).filter(
+      ([key]) => !READ_ONLY_FIELDS.has(key) && !key.startsWith("@")
+    )
+  );
+}
+
+function getUpdatedAt(record: Record<string, unknown>): string | undefined {
+  for (const field of UPDATED_AT_FIELDS) {
+    if (typeof record?.[field] === "string") {
+      return record[field] as string;
+    }
+  }
+  return undefined;
+}
+
+function isSameTimestamp(a: string, b: string): boolean {
+  const timeA = Date.parse(a);
+  const timeB = Date.parse(b);
+  return Number.isNaN(timeA) || Number.isNaN(timeB) ? a === b : timeA === timeB;
+}
+
+/**
+ * Normalize a record's related items in `field` (tags, segments), which the
+ * API may return as objects, IRIs (`/tags/1`) or plain IDs, to a list of IDs.
+ */
+function getLinkedIds(record: any, field: string): string[] {
+  const items: unknown[] = Array.isArray(record?.[field]) ? record[field] : [];
+  return items.map((item: any) => {
+    if (item && typeof item === "object") {
+      return String(item.id ?? String(item["@id"]).split("/").pop());
+    }
+    return String(item).split("/").pop() as string;
+  });
+}
+
+/** Pick the id and the given fields of a record for a deletion preview. */
+function summarizeRecord(record: any, fields: string[]): Record<string, unknown> {
+  const summary: Record<string, unknown> = { id: record?.id };
+  for (const field of fields) {
+    if (record?.[field] !== undefined) {
+      summary[field] = record[field];
+    }
+  }
+  return summary;
+}
+
+function isLoopbackHost(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
+
+interface ResourceCursor {
+  collection: number;
+  page: number;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+}
+
+// Record IDs may be passed as strings or numbers; handlers convert them to
+// strings.
+const ID_TYPES: JsonSchema["type"] = ["string", "number"];
+
+const PERSON_FIELDS: Record<string, JsonSchema> = {
+  name: {
+    type: "string",
+    description: "Full name of the person",
+  },
+  email: {
+    type: "string",
+    description: "Email address",
+  },
+  phone: {
+    type: "string",
+    description: "Phone number",
+  },
+  company: {
+    type: "string",
+    description: "Company name",
+  },
+  notes: {
+    type: "string",
+    description: "Additional notes",
+  },
+};
+
+const ORGANIZATION_FIELDS: Record<string, JsonSchema> = {
+  name: {
+    type: "string",
+    description: "Organization name",
+  },
+  website: {
+    type: "string",
+    description: "Organization website",
+  },
+  industry: {
+    type: "string",
+    description: "Industry type",
+  },
+  employees: {
+    type: "number",
+    description: "Number of employees",
+    minimum: 0,
+  },
+  notes: {
+    type: "string",
+    description: "Additional notes",
+  },
+};
+
+// Arguments shared by every get/list tool to shape the response.
+const OUTPUT_OPTIONS: Record<string, JsonSchema> = {
+  fields: {
+    type: "array",
+    description:
+      'Only return these fields of each record, e.g. ["name", "email"]. Nested fields use dots ("address.city"). The id is always returned',
+    items: { type: "string" },
+    minItems: 1,
+  },
+  format: {
+    type: "string",
+    description:
+      "json (default, the full API response), compact (single-line JSON without metadata and empty fields) or markdown_table",
+    enum: OUTPUT_FORMATS,
+  },
+};
+
+// Spreadsheet columns import_csv recognizes, per field. Headers are compared
+// lowercased with everything but letters and digits removed.
+const CSV_IMPORT_TARGETS: Record<
+  string,
+  {
+    endpoint: string;
+    label: string;
+    fields: Record<string, JsonSchema>;
+    aliases: Record<string, string[]>;
+  }
+> = {
+  people: {
+    endpoint: "/people",
+    label: "person",
+    fields: PERSON_FIELDS,
+    aliases: {
+      name: ["name", "fullname", "contact", "contactname", "person"],
+      first_name: ["firstname", "givenname", "first"],
+      last_name: ["lastname", "surname", "familyname", "last"],
+      email: ["email", "emailaddress", "mail"],
+      phone: ["phone", "phonenumber", "telephone", "tel", "mobile"],
+      company: ["company", "companyname", "organization", "organisation", "account"],
+      notes: ["notes", "note", "comments", "comment", "description"],
+    },
+  },
+  organizations: {
+    endpoint: "/organizations",
+    label: "organization",
+    fields: ORGANIZATION_FIELDS,
+    aliases: {
+      name: [
+        "name",
+        "organization",
+        "organisation",
+        "organizationname",
+        "company",
+        "companyname",
+        "account",
+      ],
+      website: ["website", "url", "web", "homepage", "domain"],
+      industry: ["industry", "sector"],
+      employees: ["employees", "employeecount", "numberofemployees", "headcount", "size"],
+      notes: ["notes", "note", "comments", "comment", "description"],
+    },
+  },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: "get_people",
+    description: "Retrieve all people/contacts from RogerRoger CRM",
+    inputSchema: {
+      type: "object",
+      properties: {
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        q: {
+          type: "string",
+          description: "Search query to filter people by name, email, or other fields",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "get_person",
+    description: "Retrieve a specific person by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the person to retrieve",
+        },
+        include: {
+          type: "array",
+          description: "Linked records to return alongside the person (optional)",
+          items: {
+            type: "string",
+            enum: ["organizations", "tasks", "tags", "lists"],
+          },
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_person",
+    description: "Create a new person/contact in RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: PERSON_FIELDS,
+    },
+  },
+  {
+    name: "update_person",
+    description:
+      "Update an existing person/contact. Only the fields you pass are changed; all other fields keep their current values",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the person to update",
+        },
+        expectedUpdatedAt: {
+          type: "string",
+          description:
+            "The updatedAt value from when you last read the record. The update is refused if the record changed since (optional)",
+          format: "date-time",
+        },
+        force: {
+          type: "boolean",
+          description: "Overwrite the record even if it changed since you read it (default: false)",
+        },
+        ...PERSON_FIELDS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "delete_person",
+    description:
+      "Delete a person/contact. The first call returns a preview and a confirmation token; repeat the call with the token to delete",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the person to delete",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Token from the deletion preview. Omit it to get a preview and token first",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_tasks",
+    description: "Retrieve tasks from RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: {
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        status: {
+          type: "string",
+          description: "Filter by task status (optional)",
+        },
+        assignee_id: {
+          type: ID_TYPES,
+          description: "Only tasks assigned to this person (optional)",
+        },
+        due_after: {
+          type: "string",
+          description: "Only tasks due on or after this ISO date (optional)",
+          format: "date",
+        },
+        due_before: {
+          type: "string",
+          description: "Only tasks due on or before this ISO date (optional)",
+          format: "date",
+        },
+        overdue: {
+          type: "boolean",
+          description: "Only open tasks whose due date has passed (optional)",
+        },
+        person_id: {
+          type: ID_TYPES,
+          description: "Only tasks linked to this person (optional)",
+        },
+        organization_id: {
+          type: ID_TYPES,
+          description: "Only tasks linked to this organization (optional)",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "get_task",
+    description: "Retrieve a specific task by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the task to retrieve",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_task",
+    description: "Create a new task in RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          description: "Task title",
+        },
+        description: {
+          type: "string",
+          description: "Task description",
+        },
+        due_date: {
+          type: "string",
+          description: "Due date (ISO format)",
+          format: "date",
+        },
+        assignee_id: {
+          type: ID_TYPES,
+          description: "ID of person to assign task to",
+        },
+        priority: {
+          type: "string",
+          description: "Task priority (low, medium, high)",
+          enum: ["low", "medium", "high"],
+        },
+        person_id: {
+          type: ID_TYPES,
+          description: "ID of the person this task is about (optional)",
+        },
+        organization_id: {
+          type: ID_TYPES,
+          description: "ID of the organization this task is about (optional)",
+        },
+      },
+      required: ["title"],
+    },
+  },
+  {
+    name: "update_task",
+    description:
+      "Update an existing task. Only the fields you pass are changed; all other fields keep their current values",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the task to update",
+        },
+        expectedUpdatedAt: {
+          type: "string",
+          description:
+            "The updatedAt value from when you last read the record. The update is refused if the record changed since (optional)",
+          format: "date-time",
+        },
+        force: {
+          type: "boolean",
+          description: "Overwrite the record even if it changed since you read it (default: false)",
+        },
+        title: {
+          type: "string",
+          description: "Task title",
+        },
+        description: {
+          type: "string",
+          description: "Task description",
+        },
+        due_date: {
+          type: "string",
+          description: "Due date (ISO format)",
+          format: "date",
+        },
+        assignee_id: {
+          type: ID_TYPES,
+          description: "ID of person to assign task to",
+        },
+        priority: {
+          type: "string",
+          description: "Task priority (low, medium, high)",
+          enum: ["low", "medium", "high"],
+        },
+        status: {
+          type: "string",
+          description: "Task status",
+        },
+        person_id: {
+          type: ID_TYPES,
+          description: "ID of the person this task is about (optional)",
+        },
+        organization_id: {
+          type: ID_TYPES,
+          description: "ID of the organization this task is about (optional)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "complete_task",
+    description: "Mark a task as completed",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the task to complete",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "reopen_task",
+    description: "Reopen a completed task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the task to reopen",
+        },
+        due_date: {
+          type: "string",
+          description: "New due date (ISO format, optional)",
+          format: "date",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "delete_task",
+    description:
+      "Delete a task. The first call returns a preview and a confirmation token; repeat the call with the token to delete",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the task to delete",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Token from the deletion preview. Omit it to get a preview and token first",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_organizations",
+    description: "Retrieve all organizations from RogerRoger CRM",
+    inputSchema: {
+      type: "object",
+      properties: {
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        q: {
+          type: "string",
+          description: "Search query to filter organizations by name or other fields",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "get_organization",
+    description: "Retrieve a specific organization by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the organization to retrieve",
+        },
+        include: {
+          type: "array",
+          description: "Linked records to return alongside the organization (optional)",
+          items: {
+            type: "string",
+            enum: ["people", "tasks", "tags", "lists"],
+          },
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_organization",
+    description: "Create a new organization in RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: ORGANIZATION_FIELDS,
+    },
+  },
+  {
+    name: "update_organization",
+    description:
+      "Update an existing organization. Only the fields you pass are changed; all other fields keep their current values",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the organization to update",
+        },
+        expectedUpdatedAt: {
+          type: "string",
+          description:
+            "The updatedAt value from when you last read the record. The update is refused if the record changed since (optional)",
+          format: "date-time",
+        },
+        force: {
+          type: "boolean",
+          description: "Overwrite the record even if it changed since you read it (default: false)",
+        },
+        ...ORGANIZATION_FIELDS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "delete_organization",
+    description:
+      "Delete an organization. The first call returns a preview and a confirmation token; repeat the call with the token to delete",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the organization to delete",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Token from the deletion preview. Omit it to get a preview and token first",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "link_person_to_organization",
+    description: "Link a person to an organization they work at",
+    inputSchema: {
+      type: "object",
+      properties: {
+        personId: {
+          type: ID_TYPES,
+          description: "The ID of the person",
+        },
+        organizationId: {
+          type: ID_TYPES,
+          description: "The ID of the organization",
+        },
+      },
+      required: ["personId", "organizationId"],
+    },
+  },
+  {
+    name: "unlink_person_from_organization",
+    description: "Remove the link between a person and an organization",
+    inputSchema: {
+      type: "object",
+      properties: {
+        personId: {
+          type: ID_TYPES,
+          description: "The ID of the person",
+        },
+        organizationId: {
+          type: ID_TYPES,
+          description: "The ID of the organization",
+        },
+      },
+      required: ["personId", "organizationId"],
+    },
+  },
+  {
+    name: "get_organization_people",
+    description: "Retrieve the people linked to an organization",
+    inputSchema: {
+      type: "object",
+      properties: {
+        organizationId: {
+          type: ID_TYPES,
+          description: "The ID of the organization",
+        },
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["organizationId"],
+    },
+  },
+  {
+    name: "get_lists",
+    description: "Retrieve all lists/segments from RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: {
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "get_list",
+    description: "Retrieve a specific list/segment by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the list to retrieve",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_list",
+    description: "Create a new list/segment in RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          description: "Name of the list",
+        },
+        icon: {
+          type: "string",
+          description: "Icon identifier for the list",
+        },
+        sequence: {
+          type: "number",
+          description: "Order sequence (optional)",
+          minimum: 0,
+        },
+      },
+      required: ["title", "icon"],
+    },
+  },
+  {
+    name: "update_list",
+    description: "Update an existing list/segment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the list to update",
+        },
+        title: {
+          type: "string",
+          description: "Name of the list",
+        },
+        icon: {
+          type: "string",
+          description: "Icon identifier for the list",
+        },
+        sequence: {
+          type: "number",
+          description: "Order sequence (optional)",
+          minimum: 0,
+        },
+      },
+      required: ["id", "title", "icon"],
+    },
+  },
+  {
+    name: "delete_list",
+    description:
+      "Delete a list/segment. The first call returns a preview and a confirmation token; repeat the call with the token to delete",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the list to delete",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Token from the deletion preview. Omit it to get a preview and token first",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_list_members",
+    description: "Retrieve the people and organizations in a list/segment",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: {
+          type: ID_TYPES,
+          description: "The ID of the list",
+        },
+        type: {
+          type: "string",
+          description: "Which members to return (default: all)",
+          enum: ["people", "organizations", "all"],
+        },
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["listId"],
+    },
+  },
+  {
+    name: "add_to_list",
+    description:
+      "Add people and/or organizations to a list/segment. Reports success or failure for each ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: {
+          type: ID_TYPES,
+          description: "The ID of the list",
+        },
+        personIds: {
+          type: "array",
+          description: "IDs of people",
+          items: { type: ID_TYPES },
+          maxItems: 100,
+        },
+        organizationIds: {
+          type: "array",
+          description: "IDs of organizations",
+          items: { type: ID_TYPES },
+          maxItems: 100,
+        },
+      },
+      required: ["listId"],
+    },
+  },
+  {
+    name: "remove_from_list",
+    description:
+      "Remove people and/or organizations from a list/segment. Reports success or failure for each ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: {
+          type: ID_TYPES,
+          description: "The ID of the list",
+        },
+        personIds: {
+          type: "array",
+          description: "IDs of people",
+          items: { type: ID_TYPES },
+          maxItems: 100,
+        },
+        organizationIds: {
+          type: "array",
+          description: "IDs of organizations",
+          items: { type: ID_TYPES },
+          maxItems: 100,
+        },
+      },
+      required: ["listId"],
+    },
+  },
+  {
+    name: "get_lists_for_person",
+    description: "Retrieve the lists/segments a person belongs to",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the person",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_tags",
+    description: "Retrieve all tags from RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: {
+        page: {
+          type: "integer",
+          description: "Collection page number (default: 1)",
+          minimum: 1,
+        },
+        itemsPerPage: {
+          type: "integer",
+          description: "Items per page, max 30 (default: 15)",
+          minimum: 1,
+          maximum: 30,
+        },
+        all: {
+          type: "boolean",
+          description: "Fetch every page and return the merged items (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Fetch pages until this many items are collected (implies all)",
+          minimum: 1,
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "get_tag",
+    description: "Retrieve a specific tag by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the tag to retrieve",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_tag",
+    description: "Create a new tag in RogerRoger",
+    inputSchema: {
+      type: "object",
+      properties: {
+        title: {
+          type: "string",
+          description: "Tag name",
+        },
+        backgroundColor: {
+          type: "string",
+          description: "Label background color (optional)",
+        },
+        textColor: {
+          type: "string",
+          description: "Label text color (optional)",
+        },
+        description: {
+          type: "string",
+          description: "Tag description (optional)",
+        },
+      },
+      required: ["title"],
+    },
+  },
+  {
+    name: "update_tag",
+    description: "Update an existing tag",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the tag to update",
+        },
+        title: {
+          type: "string",
+          description: "Tag name",
+        },
+        backgroundColor: {
+          type: "string",
+          description: "Label background color (optional)",
+        },
+        textColor: {
+          type: "string",
+          description: "Label text color (optional)",
+        },
+        description: {
+          type: "string",
+          description: "Tag description (optional)",
+        },
+      },
+      required: ["id", "title"],
+    },
+  },
+  {
+    name: "delete_tag",
+    description:
+      "Delete a tag. The first call returns a preview and a confirmation token; repeat the call with the token to delete",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the tag to delete",
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Token from the deletion preview. Omit it to get a preview and token first",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "tag_person",
+    description: "Attach a tag to a person",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the person",
+        },
+        tagId: {
+          type: ID_TYPES,
+          description: "The ID of the tag (use either tagId or tagTitle)",
+        },
+        tagTitle: {
+          type: "string",
+          description: "The title of the tag, matched case-insensitively (use either tagId or tagTitle)",
+        },
+        createIfMissing: {
+          type: "boolean",
+          description: "Create the tag when no tag with tagTitle exists (default: false)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "untag_person",
+    description: "Remove a tag from a person",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the person",
+        },
+        tagId: {
+          type: ID_TYPES,
+          description: "The ID of the tag (use either tagId or tagTitle)",
+        },
+        tagTitle: {
+          type: "string",
+          description: "The title of the tag, matched case-insensitively (use either tagId or tagTitle)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "tag_organization",
+    description: "Attach a tag to an organization",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the organization",
+        },
+        tagId: {
+          type: ID_TYPES,
+          description: "The ID of the tag (use either tagId or tagTitle)",
+        },
+        tagTitle: {
+          type: "string",
+          description: "The title of the tag, matched case-insensitively (use either tagId or tagTitle)",
+        },
+        createIfMissing: {
+          type: "boolean",
+          description: "Create the tag when no tag with tagTitle exists (default: false)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "untag_organization",
+    description: "Remove a tag from an organization",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: ID_TYPES,
+          description: "The ID of the organization",
+        },
+        tagId: {
+          type: ID_TYPES,
+          description: "The ID of the tag (use either tagId or tagTitle)",
+        },
+        tagTitle: {
+          type: "string",
+          description: "The title of the tag, matched case-insensitively (use either tagId or tagTitle)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_records_by_tag",
+    description: "Retrieve the people and/or organizations that have a tag",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tagId: {
+          type: ID_TYPES,
+          description: "The ID of the tag (use either tagId or tagTitle)",
+        },
+        tagTitle: {
+          type: "string",
+          description: "The title of the tag, matched case-insensitively (use either tagId or tagTitle)",
+        },
+        type: {
+          type: "string",
+          description: "Which records to return (default: all)",
+          enum: ["people", "organizations", "all"],
+        },
+        maxItems: {
+          type: "integer",
+          description: "Maximum number of records of each type to return",
+          minimum: 1,
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "bulk_create_people",
+    description:
+      "Create many people at once. Returns a per-item result (index, status, ID or error) instead of failing on the first error",
+    inputSchema: {
+      type: "object",
+      properties: {
+        people: {
+          type: "array",
+          description: `People to create, up to ${BULK_MAX_ITEMS}`,
+          items: {
+            type: "object",
+            properties: PERSON_FIELDS,
+          },
+          minItems: 1,
+          maxItems: BULK_MAX_ITEMS,
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "Stop starting new items after the first failure (default: false)",
+        },
+      },
+      required: ["people"],
+    },
+  },
+  {
+    name: "bulk_update_people",
+    description:
+      "Update many people at once. Only the fields passed for each person are changed. Returns a per-item result",
+    inputSchema: {
+      type: "object",
+      properties: {
+        updates: {
+          type: "array",
+          description: `Updates to apply, each with the person's id, up to ${BULK_MAX_ITEMS}`,
+          items: {
+            type: "object",
+            properties: {
+              id: {
+                type: ID_TYPES,
+                description: "The ID of the person to update",
+              },
+              ...PERSON_FIELDS,
+            },
+            required: ["id"],
+          },
+          minItems: 1,
+          maxItems: BULK_MAX_ITEMS,
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "Stop starting new items after the first failure (default: false)",
+        },
+      },
+      required: ["updates"],
+    },
+  },
+  {
+    name: "bulk_create_organizations",
+    description:
+      "Create many organizations at once. Returns a per-item result (index, status, ID or error)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        organizations: {
+          type: "array",
+          description: `Organizations to create, up to ${BULK_MAX_ITEMS}`,
+          items: {
+            type: "object",
+            properties: ORGANIZATION_FIELDS,
+          },
+          minItems: 1,
+          maxItems: BULK_MAX_ITEMS,
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "Stop starting new items after the first failure (default: false)",
+        },
+      },
+      required: ["organizations"],
+    },
+  },
+  {
+    name: "bulk_delete",
+    description:
+      "Delete many records of one type. The first call returns a preview and a confirmation token; repeat the call with the token to delete. Returns a per-item result",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          description: "The type of the records to delete",
+          enum: Object.keys(BULK_DELETE_TYPES),
+        },
+        ids: {
+          type: "array",
+          description: `IDs of the records to delete, up to ${BULK_MAX_ITEMS}`,
+          items: { type: ID_TYPES },
+          minItems: 1,
+          maxItems: BULK_MAX_ITEMS,
+        },
+        confirmationToken: {
+          type: "string",
+          description:
+            "Token from the deletion preview. Omit it to get a preview and token first",
+        },
+        stopOnError: {
+          type: "boolean",
+          description: "Stop starting new items after the first failure (default: false)",
+        },
+      },
+      required: ["type", "ids"],
+    },
+  },
+  {
+    name: "import_csv",
+    description:
+      "Import people or organizations from CSV. By default this is a dry run that reports the column mapping, invalid rows and likely duplicates without creating anything; call again with dryRun: false to create the records",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          description: "The type of the records in the CSV",
+          enum: Object.keys(CSV_IMPORT_TARGETS),
+        },
+        csv: {
+          type: "string",
+          description: "CSV text, with a header row. Pass this or filePath",
+        },
+        filePath: {
+          type: "string",
+          description: "Path of a local CSV file, with a header row. Only available over stdio",
+        },
+        mapping: {
+          type: "object",
+          description:
+            'Map of CSV column header to field, e.g. {"E-Mail Address": "email"}. People also accept first_name and last_name, which are joined into name. When set, unmapped columns are ignored; when omitted, columns are mapped by their headers',
+          additionalProperties: true,
+        },
+        delimiter: {
+          type: "string",
+          description: "Field delimiter (default: detected from the header row)",
+          enum: [",", ";", "\t"],
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Only validate and report, without creating records (default: true)",
+        },
+        skipDuplicates: {
+          type: "boolean",
+          description: "Leave out rows that look like duplicates when importing (default: true)",
+        },
+      },
+      required: ["type"],
+    },
+  },
+  {
+    name: "find_duplicate_people",
+    description:
+      "Scan all people for likely duplicates, matched on normalized email, phone number and similar names. Returns groups with a confidence score from 0 to 1 and a suggested primary record for merge_people",
+    inputSchema: {
+      type: "object",
+      properties: {
+        minConfidence: {
+          type: "number",
+          description:
+            "Only report matches at or above this confidence (default: 0.5). Same email scores 0.95, same phone 0.8, same name 0.7",
+          minimum: 0,
+          maximum: 1,
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of groups to return (default: 50)",
+          minimum: 1,
+        },
+        maxItems: {
+          type: "integer",
+          description: "Maximum number of people to scan (default and cap: ROGERROGER_MAX_PAGINATED_ITEMS)",
+          minimum: 1,
+        },
+      },
+    },
+  },
+  {
+    name: "merge_people",
+    description:
+      "Merge duplicate people into a primary record: fill its empty fields from the duplicates, combine notes, tags, lists and organizations, move tasks, then delete the duplicates. Values that conflict with the primary record are kept in its notes. By default this is a dry run that shows exactly what will change and returns a confirmation token",
+    inputSchema: {
+      type: "object",
+      properties: {
+        primaryId: {
+          type: ID_TYPES,
+          description: "The ID of the person to keep",
+        },
+        duplicateIds: {
+          type: "array",
+          description: `IDs of the people to merge into the primary record and delete, up to ${MERGE_MAX_DUPLICATES}`,
+          items: { type: ID_TYPES },
+          minItems: 1,
+          maxItems: MERGE_MAX_DUPLICATES,
+        },
+        dryRun: {
+          type: "boolean",
+          description: "Only show the planned changes (default: true)",
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token from the dry run, required to merge",
+        },
+      },
+      required: ["primaryId", "duplicateIds"],
+    },
+  },
+  {
+    name: "export",
+    description:
+      "Export every person, organization, task, list or tag to a local CSV, NDJSON or JSON file. Nested fields are flattened into dot-separated columns. Returns the file path and row count",
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          description: "The records to export",
+          enum: Object.keys(EXPORT_ENDPOINTS),
+        },
+        format: {
+          type: "string",
+          description: "File format (default: csv)",
+          enum: EXPORT_FORMATS,
+        },
+        columns: {
+          type: "array",
+          description:
+            'Columns to include, in order, e.g. ["name", "email", "address.city"]. A nested object such as "address" includes all of its fields. Default: every field',
+          items: { type: "string" },
+        },
+        path: {
+          type: "string",
+          description:
+            "File to write. Default: ~/.rogerroger-mcp/exports/<type>-<timestamp>.<format>. Only available over stdio",
+        },
+        overwrite: {
+          type: "boolean",
+          description: "Replace the file if it already exists (default: false)",
+        },
+        maxItems: {
+          type: "integer",
+          description: "Stop after this many records (default: all)",
+          minimum: 1,
+        },
+      },
+      required: ["type"],
+    },
+  },
+  {
+    name: "get_audit_log",
+    description:
+      "Show the changes this server made in RogerRoger (creates, updates and deletes), newest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        since: {
+          type: "string",
+          description: "Only include changes at or after this ISO date/time (optional)",
+          format: "date-time",
+        },
+        tool: {
+          type: "string",
+          description: "Only include calls to tools matching this glob, e.g. delete_* (optional)",
+        },
+        workspace: {
+          type: "string",
+          description: "Only include calls made in this workspace (optional)",
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of entries to return (default: 50)",
+          minimum: 1,
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "list_recent_changes",
+    description:
+      "List recent updates and deletes that can be undone, newest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "integer",
+          description: "Maximum number of changes to return (default: 20)",
+          minimum: 1,
+        },
+        workspace: {
+          type: "string",
+          description: "Only include changes made in this workspace (optional)",
+        },
+        ...OUTPUT_OPTIONS,
+      },
+    },
+  },
+  {
+    name: "undo_change",
+    description:
+      "Undo an update or delete by restoring the record snapshot taken before it. Deleted records are re-created with a new ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        changeId: {
+          type: "string",
+          description: "The ID of the change, from list_recent_changes",
+        },
+      },
+      required: ["changeId"],
+    },
+  },
+  {
+    name: "list_workspaces",
+    description:
+      "List the configured RogerRoger workspaces (name, API base URL, read-only flag and which one is the default). API keys are not shown",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+];
 
-interface RogerRogerConfig {
-  apiKey: string;
-  baseUrl?: string;
+// Every tool that talks to the API can be pointed at another workspace.
+for (const tool of TOOLS) {
+  if (tool.name !== "list_workspaces" && !tool.inputSchema.properties?.workspace) {
+    tool.inputSchema.properties = {
+      ...tool.inputSchema.properties,
+      workspace: {
+        type: "string",
+        description:
+          "Workspace to run against, from list_workspaces (default: the configured default workspace)",
+      },
+    };
+  }
 }
 
 class RogerRogerMCP {
   private config: RogerRogerConfig;
-  private server: Server;
+  private servers = new Set<Server>();
+  private sessions = new Map<string, SSEServerTransport>();
+  private httpServer?: HttpServer;
+  private workspaces = new Map<string, Workspace>();
+  private auditLog?: AuditLog;
+  private changeHistory: ChangeHistory;
 
-  constructor() {
-    this.config = {
-      apiKey: process.env.ROGERROGER_API_KEY || "",
-      baseUrl: process.env.ROGERROGER_BASE_URL || "https://api.rogerroger.io",
-    };
+  constructor(config: RogerRogerConfig) {
+    this.config = config;
+
+    assertValidRetryOptions(this.config.retry);
+    for (const profile of this.config.workspaces) {
+      this.workspaces.set(profile.name, {
+        ...profile,
+        rateLimiter: new TokenBucket(
+          this.config.rateLimitPerSecond,
+          this.config.rateLimitBurst
+        ),
+        requestQueue: new ConcurrencyQueue(this.config.maxConcurrency),
+        confirmations: new ConfirmationStore(CONFIRMATION_TTL_MS),
+      });
+    }
+    if (this.config.auditLog) {
+      this.auditLog = new AuditLog(this.config.auditLog);
+    }
+    this.changeHistory = new ChangeHistory(
+      this.config.changeHistory.limit,
+      this.config.changeHistory.path
+    );
+
+    this.setupErrorHandling();
+  }
 
-    this.server = new Server({
+  private createServer(): Server {
+    const server = new Server({
       name: "rogerroger-mcp",
       version: "1.0.3",
     });
 
-    this.setupTools();
-    this.setupErrorHandling();
-  }
+    this.setupTools(server);
+    this.setupResources(server);
+    this.setupPrompts(server);
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       console.error("[MCP Error]", error);
     };
+    this.servers.add(server);
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
 
+    return server;
+  }
+
+  private setupErrorHandling(): void {
     process.on("SIGINT", async () => {
-      await this.server.close();
+      await Promise.all([...this.servers].map((server) => server.close()));
+      if (this.httpServer) {
+        const httpServer = this.httpServer;
+        await new Promise<void>((resolve) => {
+          httpServer.close(() => resolve());
+          httpServer.closeAllConnections();
+        });
+      }
       process.exit(0);
     });
   }
 
-  private setupTools(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupTools(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: "get_people",
-            description: "Retrieve all people/contacts from RogerRoger CRM",
-            inputSchema: {
-              type: "object",
-              properties: {
-                page: {
-                  type: "number",
-                  description: "Collection page number (default: 1)",
-                },
-                itemsPerPage: {
-                  type: "number",
-                  description: "Items per page, max 30 (default: 15)",
-                },
-                q: {
-                  type: "string",
-                  description: "Search query to filter people by name, email, or other fields",
-                },
-              },
-            },
-          },
-          {
-            name: "get_person",
-            description: "Retrieve a specific person by ID",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the person to retrieve",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "create_person",
-            description: "Create a new person/contact in RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                name: {
-                  type: "string",
-                  description: "Full name of the person",
-                },
-                email: {
-                  type: "string",
-                  description: "Email address",
-                },
-                phone: {
-                  type: "string",
-                  description: "Phone number",
-                },
-                company: {
-                  type: "string",
-                  description: "Company name",
-                },
-                notes: {
-                  type: "string",
-                  description: "Additional notes",
-                },
-              },
-            },
-          },
-          {
-            name: "update_person",
-            description: "Update an existing person/contact",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the person to update",
-                },
-                name: {
-                  type: "string",
-                  description: "Full name of the person",
-                },
-                email: {
-                  type: "string",
-                  description: "Email address",
-                },
-                phone: {
-                  type: "string",
-                  description: "Phone number",
-                },
-                company: {
-                  type: "string",
-                  description: "Company name",
-                },
-                notes: {
-                  type: "string",
-                  description: "Additional notes",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "delete_person",
-            description: "Delete a person/contact",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the person to delete",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "get_tasks",
-            description: "Retrieve tasks from RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                page: {
-                  type: "number",
-                  description: "Collection page number (default: 1)",
-                },
-                itemsPerPage: {
-                  type: "number",
-                  description: "Items per page, max 30 (default: 15)",
-                },
-                status: {
-                  type: "string",
-                  description: "Filter by task status (optional)",
-                },
-              },
-            },
-          },
-          {
-            name: "create_task",
-            description: "Create a new task in RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                title: {
-                  type: "string",
-                  description: "Task title",
-                },
-                description: {
-                  type: "string",
-                  description: "Task description",
-                },
-                due_date: {
-                  type: "string",
-                  description: "Due date (ISO format)",
-                },
-                assignee_id: {
-                  type: "string",
-                  description: "ID of person to assign task to",
-                },
-                priority: {
-                  type: "string",
-                  description: "Task priority (low, medium, high)",
-                },
-              },
-              required: ["title"],
-            },
-          },
-          {
-            name: "get_organizations",
-            description: "Retrieve all organizations from RogerRoger CRM",
-            inputSchema: {
-              type: "object",
-              properties: {
-                page: {
-                  type: "number",
-                  description: "Collection page number (default: 1)",
-                },
-                itemsPerPage: {
-                  type: "number",
-                  description: "Items per page, max 30 (default: 15)",
-                },
-                q: {
-                  type: "string",
-                  description: "Search query to filter organizations by name or other fields",
-                },
-              },
-            },
-          },
-          {
-            name: "get_organization",
-            description: "Retrieve a specific organization by ID",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the organization to retrieve",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "create_organization",
-            description: "Create a new organization in RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                name: {
-                  type: "string",
-                  description: "Organization name",
-                },
-                website: {
-                  type: "string",
-                  description: "Organization website",
-                },
-                industry: {
-                  type: "string",
-                  description: "Industry type",
-                },
-                employees: {
-                  type: "number",
-                  description: "Number of employees",
-                },
-                notes: {
-                  type: "string",
-                  description: "Additional notes",
-                },
-              },
-            },
-          },
-          {
-            name: "update_organization",
-            description: "Update an existing organization",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the organization to update",
-                },
-                name: {
-                  type: "string",
-                  description: "Organization name",
-                },
-                website: {
-                  type: "string",
-                  description: "Organization website",
-                },
-                industry: {
-                  type: "string",
-                  description: "Industry type",
-                },
-                employees: {
-                  type: "number",
-                  description: "Number of employees",
-                },
-                notes: {
-                  type: "string",
-                  description: "Additional notes",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "delete_organization",
-            description: "Delete an organization",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the organization to delete",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "get_lists",
-            description: "Retrieve all lists/segments from RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                page: {
-                  type: "number",
-                  description: "Collection page number (default: 1)",
-                },
-                itemsPerPage: {
-                  type: "number",
-                  description: "Items per page, max 30 (default: 15)",
-                },
-              },
-            },
-          },
-          {
-            name: "get_list",
-            description: "Retrieve a specific list/segment by ID",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the list to retrieve",
-                },
-              },
-              required: ["id"],
-            },
-          },
-          {
-            name: "create_list",
-            description: "Create a new list/segment in RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                title: {
-                  type: "string",
-                  description: "Name of the list",
-                },
-                icon: {
-                  type: "string",
-                  description: "Icon identifier for the list",
-                },
-                sequence: {
-                  type: "number",
-                  description: "Order sequence (optional)",
-                },
-              },
-              required: ["title", "icon"],
-            },
-          },
-          {
-            name: "update_list",
-            description: "Update an existing list/segment",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the list to update",
-                },
-                title: {
-                  type: "string",
-                  description: "Name of the list",
-                },
-                icon: {
-                  type: "string",
-                  description: "Icon identifier for the list",
-                },
-                sequence: {
-                  type: "number",
-                  description: "Order sequence (optional)",
-                },
-              },
-              required: ["id", "title", "icon"],
-            },
-          },
-          {
-            name: "delete_list",
-            description: "Delete a list/segment",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the list to delete",
-                },
-              },
-              required: ["id"],
+        tools: TOOLS.filter((tool) => this.isToolEnabled(tool.name)),
+      };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        if (!this.isToolEnabled(name)) {
+          throw new Error(
+            this.isReadOnly() && MUTATING_TOOLS.has(name)
+              ? `Tool ${name} is not available in read-only mode`
+              : `Tool ${name} is disabled by configuration`
+          );
+        }
+
+        const tool = TOOLS.find((definition) => definition.name === name);
+        if (tool) {
+          const errors = validateSchema(args ?? {}, tool.inputSchema);
+          if (errors.length > 0) {
+            throw new Error(`Invalid arguments for ${name}: ${errors.join("; ")}`);
+          }
+        }
+
+        const { workspace, ...toolArgs } = args ?? {};
+        return await selectedWorkspace.run(
+          workspace !== undefined ? String(workspace).toLowerCase() : undefined,
+          async () => {
+            if (!MUTATING_TOOLS.has(name)) {
+              return await this.callTool(name, toolArgs);
+            }
+            // undo_change runs in the workspace the change was made in.
+            if (name !== "undo_change" && this.workspace().readOnly) {
+              throw new Error(`Workspace ${this.workspace().name} is read-only`);
+            }
+            return await this.auditToolCall(name, toolArgs, () =>
+              this.callTool(name, toolArgs)
+            );
+          }
+        );
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: this.formatError(error),
             },
-          },
-          {
-            name: "get_tags",
-            description: "Retrieve all tags from RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                page: {
-                  type: "number",
-                  description: "Collection page number (default: 1)",
-                },
-                itemsPerPage: {
-                  type: "number",
-                  description: "Items per page, max 30 (default: 15)",
-                },
-              },
+          ],
+          isError: true,
+        };
+      }
+    });
+  }
+
+  private formatError(error: unknown): string {
+    if (!(error instanceof ApiError)) {
+      return `Error: ${error instanceof Error ? error.message : "Unknown error"}`;
+    }
+
+    const lines = [`Error: ${error.message}`, `Category: ${error.category}`];
+    if (error.fieldErrors.length > 0) {
+      lines.push("Fields:");
+      for (const { field, message } of error.fieldErrors) {
+        lines.push(`- ${field || "(record)"}: ${message}`);
+      }
+    }
+    lines.push(`Hint: ${error.hint}`);
+
+    return lines.join("\n");
+  }
+
+  private async callTool(name: string, args: Record<string, unknown> | undefined) {
+    switch (name) {
+      case "get_people":
+        return await this.getPeople(args || {});
+      case "get_person":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.getPerson(String(args.id), args);
+      case "create_person":
+        return await this.createPerson(args || {});
+      case "update_person":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.updatePerson(String(args.id), args);
+      case "delete_person":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.deletePerson(String(args.id), args.confirmationToken);
+      case "get_tasks":
+        return await this.getTasks(args || {});
+      case "get_task":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.getTask(String(args.id), args);
+      case "create_task":
+        return await this.createTask(args || {});
+      case "update_task":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.updateTask(String(args.id), args);
+      case "complete_task":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.completeTask(String(args.id));
+      case "reopen_task":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.reopenTask(String(args.id), args);
+      case "delete_task":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.deleteTask(String(args.id), args.confirmationToken);
+      case "get_organizations":
+        return await this.getOrganizations(args || {});
+      case "get_organization":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.getOrganization(String(args.id), args);
+      case "create_organization":
+        return await this.createOrganization(args || {});
+      case "update_organization":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.updateOrganization(String(args.id), args);
+      case "delete_organization":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.deleteOrganization(String(args.id), args.confirmationToken);
+      case "link_person_to_organization":
+      case "unlink_person_from_organization":
+        if (
+          !args ||
+          typeof args !== "object" ||
+          !("personId" in args) ||
+          !("organizationId" in args)
+        ) {
+          throw new Error("Missing required parameters: personId, organizationId");
+        }
+        return await this.setOrganizationLink(
+          name,
+          String(args.personId),
+          String(args.organizationId)
+        );
+      case "get_organization_people":
+        if (!args || typeof args !== "object" || !("organizationId" in args)) {
+          throw new Error("Missing required parameter: organizationId");
+        }
+        return await this.getOrganizationPeople(String(args.organizationId), args);
+      case "get_lists":
+        return await this.getLists(args || {});
+      case "get_list":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.getList(String(args.id), args);
+      case "create_list":
+        return await this.createList(args || {});
+      case "update_list":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.updateList(String(args.id), args);
+      case "delete_list":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.deleteList(String(args.id), args.confirmationToken);
+      case "get_list_members":
+        if (!args || typeof args !== "object" || !("listId" in args)) {
+          throw new Error("Missing required parameter: listId");
+        }
+        return await this.getListMembers(String(args.listId), args);
+      case "add_to_list":
+      case "remove_from_list":
+        if (!args || typeof args !== "object" || !("listId" in args)) {
+          throw new Error("Missing required parameter: listId");
+        }
+        return await this.setListMembership(name, String(args.listId), args);
+      case "get_lists_for_person":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.getListsForPerson(String(args.id), args);
+      case "get_tags":
+        return await this.getTags(args || {});
+      case "get_tag":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.getTag(String(args.id), args);
+      case "create_tag":
+        return await this.createTag(args || {});
+      case "update_tag":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.updateTag(String(args.id), args);
+      case "delete_tag":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.deleteTag(String(args.id), args.confirmationToken);
+      case "tag_person":
+      case "untag_person":
+      case "tag_organization":
+      case "untag_organization":
+        if (!args || typeof args !== "object" || !("id" in args)) {
+          throw new Error("Missing required parameter: id");
+        }
+        return await this.setRecordTag(name, String(args.id), args);
+      case "get_records_by_tag":
+        return await this.getRecordsByTag(args || {});
+      case "bulk_create_people":
+        return await this.bulkCreate("/people", args?.people, args?.stopOnError);
+      case "bulk_create_organizations":
+        return await this.bulkCreate("/organizations", args?.organizations, args?.stopOnError);
+      case "bulk_update_people":
+        return await this.bulkUpdatePeople(args || {});
+      case "bulk_delete":
+        return await this.bulkDelete(args || {});
+      case "import_csv":
+        return await this.importCsv(args || {});
+      case "find_duplicate_people":
+        return await this.findDuplicatePeople(args || {});
+      case "merge_people":
+        return await this.mergePeople(args || {});
+      case "export": {
+        const result = await this.exportRecords(args || {});
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Exported ${result.rows} ${result.type} to ${result.path}:\n${JSON.stringify(
+                result,
+                null,
+                2
+              )}`,
             },
-          },
+          ],
+        };
+      }
+      case "get_audit_log":
+        return await this.getAuditLog(args || {});
+      case "list_recent_changes":
+        return await this.listRecentChanges(args || {});
+      case "undo_change":
+        if (!args || typeof args !== "object" || !("changeId" in args)) {
+          throw new Error("Missing required parameter: changeId");
+        }
+        return await this.undoChange(String(args.changeId));
+      case "list_workspaces":
+        return this.listWorkspaces();
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  /**
+   * Run a mutating tool call and append it to the audit log, with every
+   * write request it sent to the API, when it sent at least one.
+   */
+  private async auditToolCall<T>(
+    name: string,
+    args: Record<string, unknown>,
+    handler: () => Promise<T>
+  ): Promise<T> {
+    const requests: ApiRequestRecord[] = [];
+    let error: unknown;
+
+    try {
+      return await apiRequestLog.run(requests, handler);
+    } catch (err) {
+      error = err;
+      throw err;
+    } finally {
+      const writes = requests.filter(({ method }) => method !== "GET");
+      const last = writes[writes.length - 1];
+      if (this.auditLog && last) {
+        await this.auditLog
+          .append({
+            timestamp: new Date().toISOString(),
+            workspace: last.workspace,
+            tool: name,
+            arguments: redactSecrets(args) as Record<string, unknown>,
+            targetId: args.id !== undefined ? String(args.id) : last.responseId,
+            httpStatus: last.status,
+            responseId: last.responseId,
+            requests: writes.map(({ method, endpoint, status, responseId, error }) => ({
+              method,
+              endpoint,
+              status,
+              id: responseId,
+              error,
+            })),
+            success: error === undefined,
+            error: error instanceof Error ? error.message : undefined,
+          })
+          .catch((err) => console.error("[RogerRoger] Failed to write audit log", err));
+      }
+    }
+  }
+
+  /**
+   * The workspace for the current tool call: the one named in its
+   * `workspace` argument, else the default one.
+   */
+  private workspace(): Workspace {
+    const names = [...this.workspaces.keys()];
+    const name = selectedWorkspace.getStore() ?? this.defaultWorkspaceName();
+    if (!name) {
+      throw new Error(
+        `Several workspaces are configured (${names.join(", ")}); pass workspace, or set ROGERROGER_DEFAULT_WORKSPACE`
+      );
+    }
+    const workspace = this.workspaces.get(name);
+    if (!workspace) {
+      throw new Error(`Unknown workspace "${name}". Configured workspaces: ${names.join(", ")}`);
+    }
+    return workspace;
+  }
+
+  /**
+   * ROGERROGER_DEFAULT_WORKSPACE, else the workspace of ROGERROGER_API_KEY,
+   * else the only configured workspace.
+   */
+  private defaultWorkspaceName(): string | undefined {
+    if (this.config.defaultWorkspace) {
+      return this.config.defaultWorkspace;
+    }
+    if (this.workspaces.has(DEFAULT_WORKSPACE_NAME)) {
+      return DEFAULT_WORKSPACE_NAME;
+    }
+    return this.workspaces.size === 1 ? [...this.workspaces.keys()][0] : undefined;
+  }
+
+  /** Read-only for every workspace, so mutating tools are hidden. */
+  private isReadOnly(): boolean {
+    const { readOnly, workspaces } = this.config;
+    return readOnly || (workspaces.length > 0 && workspaces.every((profile) => profile.readOnly));
+  }
+
+  private listWorkspaces() {
+    const defaultName = this.defaultWorkspaceName();
+    const workspaces = this.config.workspaces.map(({ name, baseUrl, readOnly }) => ({
+      name,
+      baseUrl,
+      readOnly: readOnly || this.config.readOnly,
+      default: name === defaultName,
+    }));
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(workspaces, null, 2),
+        },
+      ],
+    };
+  }
+
+  private isToolEnabled(name: string): boolean {
+    if (this.isReadOnly() && MUTATING_TOOLS.has(name)) {
+      return false;
+    }
+    if (
+      this.config.toolsAllow.length > 0 &&
+      !this.config.toolsAllow.some((pattern) => matchesGlob(name, pattern))
+    ) {
+      return false;
+    }
+    return !this.config.toolsDeny.some((pattern) => matchesGlob(name, pattern));
+  }
+
+  private setupResources(server: Server): void {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: RESOURCE_COLLECTIONS.map(({ kind, label }) => ({
+          uriTemplate: `${RESOURCE_URI_PREFIX}${kind}/{id}`,
+          name: `RogerRoger ${label}`,
+          description: `A single ${label.toLowerCase()} record from RogerRoger`,
+          mimeType: "application/json",
+        })),
+      };
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      const cursor = this.decodeResourceCursor(request.params?.cursor);
+      const { kind, endpoint, label } = RESOURCE_COLLECTIONS[cursor.collection];
+
+      const data = await this.makeRequest(endpoint, {
+        params: {
+          page: String(cursor.page),
+          itemsPerPage: String(MAX_ITEMS_PER_PAGE),
+        },
+      });
+      const { items, totalItems } = extractCollection(data);
+
+      const resources = items
+        .filter((item) => item?.id !== undefined)
+        .map((item) => ({
+          uri: `${RESOURCE_URI_PREFIX}${kind}/${item.id}`,
+          name: String(item.name ?? item.title ?? `${label} ${item.id}`),
+          mimeType: "application/json",
+        }));
+
+      // The tags collection is small enough to expose as one resource.
+      if (cursor.collection === 0 && cursor.page === 1) {
+        resources.unshift({
+          uri: `${RESOURCE_URI_PREFIX}tags`,
+          name: "RogerRoger Tags",
+          mimeType: "application/json",
+        });
+      }
+
+      let next: ResourceCursor | undefined;
+      const hasMorePages =
+        items.length === MAX_ITEMS_PER_PAGE &&
+        (totalItems === undefined || cursor.page * MAX_ITEMS_PER_PAGE < totalItems);
+      if (hasMorePages) {
+        next = { collection: cursor.collection, page: cursor.page + 1 };
+      } else if (cursor.collection + 1 < RESOURCE_COLLECTIONS.length) {
+        next = { collection: cursor.collection + 1, page: 1 };
+      }
+
+      return {
+        resources,
+        nextCursor: next
+          ? Buffer.from(JSON.stringify(next)).toString("base64url")
+          : undefined,
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const data =
+        uri === `${RESOURCE_URI_PREFIX}tags`
+          ? await this.fetchAllPages("/tags", {})
+          : await this.makeRequest(this.resourceUriToEndpoint(uri));
+
+      return {
+        contents: [
           {
-            name: "get_tag",
-            description: "Retrieve a specific tag by ID",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the tag to retrieve",
-                },
-              },
-              required: ["id"],
-            },
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(data, null, 2),
           },
-          {
-            name: "create_tag",
-            description: "Create a new tag in RogerRoger",
-            inputSchema: {
-              type: "object",
-              properties: {
-                title: {
-                  type: "string",
-                  description: "Tag name",
-                },
-                backgroundColor: {
-                  type: "string",
-                  description: "Label background color (optional)",
-                },
-                textColor: {
-                  type: "string",
-                  description: "Label text color (optional)",
-                },
-                description: {
-                  type: "string",
-                  description: "Tag description (optional)",
-                },
-              },
-              required: ["title"],
-            },
+        ],
+      };
+    });
+  }
+
+  private setupPrompts(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: PROMPTS };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+
+      switch (name) {
+        case "meeting_brief": {
+          if (!args.personId) {
+            throw new McpError(ErrorCode.InvalidParams, "Missing required argument: personId");
+          }
+          const person = await this.makeRequest(`/people/${args.personId}`);
+          return this.buildPrompt(
+            `Brief for meeting with person ${args.personId}`,
+            [
+              "Prepare a concise meeting brief for my upcoming meeting with this contact.",
+              "Summarize who they are, their company and role, how to reach them, and anything notable in their notes.",
+              "Finish with three suggested talking points and any open questions I should ask.",
+              "",
+              "Contact record from RogerRoger:",
+              JSON.stringify(person, null, 2),
+            ].join("\n")
+          );
+        }
+        case "account_review": {
+          if (!args.organizationId) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              "Missing required argument: organizationId"
+            );
+          }
+          const organization = await this.makeRequest(
+            `/organizations/${args.organizationId}`
+          );
+          return this.buildPrompt(
+            `Account review for organization ${args.organizationId}`,
+            [
+              "Write an account review for this organization.",
+              "Cover what we know about the company (industry, size, website), the state of the relationship based on the notes, risks, and recommended next steps.",
+              "",
+              "Organization record from RogerRoger:",
+              JSON.stringify(organization, null, 2),
+            ].join("\n")
+          );
+        }
+        case "weekly_task_triage": {
+          // Completed tasks would crowd open ones out of the paginated set.
+          const params: Record<string, string> = {
+            status: args.status ? String(args.status) : TASK_STATUS_OPEN,
+          };
+          const tasks = await this.fetchAllPages("/tasks", params);
+          return this.buildPrompt("Weekly task triage", [
+            `Today is ${new Date().toISOString().slice(0, 10)}. Triage the tasks below for the coming week.`,
+            "Group them into overdue, due this week and later. Within each group, order by priority.",
+            "Call out tasks without a due date or assignee, and suggest which ones could be closed or rescheduled.",
+            "",
+            `Tasks from RogerRoger (${tasks.count}${tasks.truncated ? ", truncated" : ""}):`,
+            JSON.stringify(tasks.items, null, 2),
+          ].join("\n"));
+        }
+        default:
+          throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+    });
+  }
+
+  private buildPrompt(description: string, text: string) {
+    return {
+      description,
+      messages: [
+        {
+          role: "user" as const,
+          content: {
+            type: "text" as const,
+            text,
           },
+        },
+      ],
+    };
+  }
+
+  private decodeResourceCursor(cursor?: string): ResourceCursor {
+    if (!cursor) {
+      return { collection: 0, page: 1 };
+    }
+
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+      if (
+        Number.isInteger(decoded.collection) &&
+        decoded.collection >= 0 &&
+        decoded.collection < RESOURCE_COLLECTIONS.length &&
+        Number.isInteger(decoded.page) &&
+        decoded.page >= 1
+      ) {
+        return decoded;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+
+  private resourceUriToEndpoint(uri: string): string {
+    for (const { kind, endpoint } of RESOURCE_COLLECTIONS) {
+      const prefix = `${RESOURCE_URI_PREFIX}${kind}/`;
+      if (uri.startsWith(prefix)) {
+        const id = uri.slice(prefix.length);
+        if (id && !id.includes("/")) {
+          return `${endpoint}/${encodeURIComponent(id)}`;
+        }
+      }
+    }
+
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+  }
+
+  private async makeRequest(
+    endpoint: string,
+    options: {
+      method?: string;
+      body?: any;
+      params?: Record<string, string>;
+      headers?: Record<string, string>;
+      onResponseHeaders?: (headers: Headers) => void;
+    } = {}
+  ): Promise<any> {
+    const workspace = this.workspace();
+    const { method = "GET", body, params, onResponseHeaders } = options;
+    let url = `${workspace.baseUrl}${endpoint}`;
+
+    if (params) {
+      const searchParams = new URLSearchParams(params);
+      url += `?${searchParams.toString()}`;
+    }
+
+    const headers: Record<string, string> = {
+      "X-API-KEY": workspace.apiKey,
+      "Content-Type": "application/json",
+      ...options.headers,
+    };
+
+    const idempotent = isIdempotentMethod(method);
+    const { maxRetries, maxDelayMs } = this.config.retry;
+
+    for (let attempt = 0; ; attempt++) {
+      let response;
+      try {
+        response = await workspace.requestQueue.run(`${method} ${endpoint}`, async () => {
+          await workspace.rateLimiter.take();
+          return await fetch(url, {
+            method,
+            headers,
+            body: body ? JSON.stringify(body) : undefined,
+          });
+        });
+      } catch (error) {
+        // A network error on a POST may still have reached the API, so the
+        // attempt is logged, and only idempotent requests are retried here.
+        apiRequestLog.getStore()?.push({
+          workspace: workspace.name,
+          method,
+          endpoint,
+          status: 0,
+          error: error instanceof Error ? error.message : "Network error",
+        });
+        if (!idempotent || attempt >= maxRetries) {
+          throw error;
+        }
+        const delay = computeBackoffDelay(attempt, this.config.retry);
+        console.error(
+          `[RogerRoger] ${method} ${endpoint} failed (${
+            error instanceof Error ? error.message : "network error"
+          }), retrying in ${delay}ms (${attempt + 1}/${maxRetries})`
+        );
+        await sleep(delay);
+        continue;
+      }
+
+      const retryAfter = response.ok
+        ? undefined
+        : parseRetryAfter(response.headers.get("retry-after"));
+      // Retrying before the time the API asked for would only fail again, so a
+      // longer Retry-After than maxDelayMs ends the retries.
+      if (
+        !response.ok &&
+        attempt < maxRetries &&
+        isRetryableStatus(response.status, idempotent) &&
+        (retryAfter === undefined || retryAfter <= maxDelayMs)
+      ) {
+        const delay = retryAfter ?? computeBackoffDelay(attempt, this.config.retry);
+        console.error(
+          `[RogerRoger] ${method} ${endpoint} returned HTTP ${response.status}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`
+        );
+        // Read the body so the connection is released before waiting.
+        await response.arrayBuffer().catch(() => {});
+        await sleep(delay);
+        continue;
+      }
+
+      if (!response.ok) {
+        apiRequestLog.getStore()?.push({
+          workspace: workspace.name,
+          method,
+          endpoint,
+          status: response.status,
+        });
+        throw ApiError.fromResponseText(response.status, await response.text(), retryAfter);
+      }
+
+      onResponseHeaders?.(response.headers);
+
+      // DELETE answers with 204 No Content
+      const text = await response.text();
+      const data = text ? JSON.parse(text) : null;
+      apiRequestLog.getStore()?.push({
+        workspace: workspace.name,
+        method,
+        endpoint,
+        status: response.status,
+        responseId: data?.id !== undefined ? String(data.id) : undefined,
+      });
+      return data;
+    }
+  }
+
+  private async fetchAllPages(
+    endpoint: string,
+    params: Record<string, string>,
+    maxItems?: number,
+    cap = this.config.maxPaginatedItems
+  ) {
+    const limit = Math.min(maxItems ? Number(maxItems) : cap, cap);
+    const itemsPerPage = MAX_ITEMS_PER_PAGE;
+    const items: any[] = [];
+    let page = params.page ? Number(params.page) : 1;
+    let totalItems: number | undefined;
+    let hasMore = true;
+    // Whether hasMore comes from the API (a total or a next link) rather than
+    // from a full page, which may just as well be the last one.
+    let certain = false;
+
+    // At exactly the limit, an uncertain hasMore needs one more page to tell
+    // whether anything was left out.
+    while (hasMore && (items.length < limit || (items.length === limit && !certain))) {
+      const data = await this.makeRequest(endpoint, {
+        params: {
+          ...params,
+          page: String(page),
+          itemsPerPage: String(itemsPerPage),
+        },
+      });
+      const collection = extractCollection(data);
+      totalItems = collection.totalItems ?? totalItems;
+      items.push(...collection.items);
+
+      certain = collection.hasNext !== undefined || totalItems !== undefined;
+      hasMore =
+        collection.hasNext ??
+        (collection.items.length === itemsPerPage &&
+          (totalItems === undefined || items.length < totalItems));
+      page++;
+    }
+
+    const truncated = hasMore || items.length > limit;
+
+    return {
+      items: items.slice(0, limit),
+      count: Math.min(items.length, limit),
+      totalItems: totalItems ?? (truncated ? undefined : items.length),
+      truncated,
+    };
+  }
+
+  /**
+   * First step of a deletion: returns a preview of the record and a
+   * confirmation token, or null when the caller supplied a valid token.
+   */
+  private async previewDeletion(
+    kind: string,
+    endpoint: string,
+    confirmationToken: unknown,
+    fields: string[]
+  ) {
+    if (this.config.skipDeleteConfirmation) {
+      return null;
+    }
+
+    if (confirmationToken !== undefined) {
+      if (!this.workspace().confirmations.consume(endpoint, String(confirmationToken))) {
+        throw new Error(
+          "Invalid or expired confirmationToken. Call the tool again without a token to get a new preview"
+        );
+      }
+      return null;
+    }
+
+    const summary = summarizeRecord(await this.makeRequest(endpoint), fields);
+    const { token, expiresAt } = this.workspace().confirmations.issue(endpoint);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `This will permanently delete the following ${kind}:\n${JSON.stringify(
+            summary,
+            null,
+            2
+          )}\n\nTo proceed, call the tool again with confirmationToken "${token}" (expires ${expiresAt.toISOString()}).`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Find the tag referenced by tagId or tagTitle. With create set, a title
+   * that matches no tag creates one.
+   */
+  private async resolveTag(args: any, create = false) {
+    if (args.tagId) {
+      const tag = await this.makeRequest(`/tags/${args.tagId}`);
+      return { id: String(tag?.id ?? args.tagId), title: tag?.title, created: false };
+    }
+    if (!args.tagTitle) {
+      throw new Error("Either tagId or tagTitle is required");
+    }
+
+    const title = String(args.tagTitle).trim();
+    const { items } = await this.fetchAllPages("/tags", {});
+    const existing = items.find(
+      (tag) => String(tag?.title ?? "").toLowerCase() === title.toLowerCase()
+    );
+    if (existing) {
+      return { id: String(existing.id), title: existing.title, created: false };
+    }
+    if (!create) {
+      throw new Error(`No tag found with title "${title}"`);
+    }
+
+    const tag = await this.makeRequest("/tags", {
+      method: "POST",
+      body: { title },
+    });
+    return { id: String(tag.id), title: tag.title ?? title, created: true };
+  }
+
+  private async setRecordTag(tool: string, id: string, args: any) {
+    const kind = tool.endsWith("_person") ? "person" : "organization";
+    const attach = tool.startsWith("tag_");
+    const tag = await this.resolveTag(args, attach && args.createIfMissing === true);
+    const { label } = UNDOABLE_RECORDS[kind];
+
+    const { data, changeId } = await this.mergeUpdate(tool, kind, id, {}, (current) => {
+      const tagIds = getLinkedIds(current, "tags").filter((tagId) => tagId !== tag.id);
+      return { tags: attach ? [...tagIds, tag.id] : tagIds };
+    });
+
+    const action = attach ? "tagged with" : "untagged from";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${label} ${id} ${action} "${tag.title ?? tag.id}" (tag ID ${tag.id}${
+            tag.created ? ", newly created" : ""
+          }): ${JSON.stringify(data, null, 2)}${this.changeNote(changeId)}`,
+        },
+      ],
+    };
+  }
+
+  private async getRecordsByTag(args: any) {
+    const tag = await this.resolveTag(args);
+    const type = args.type ?? "all";
+    const result: Record<string, unknown> = { tag };
+
+    if (type === "people" || type === "all") {
+      result.people = await this.fetchAllPages("/people", { tags: tag.id }, args.maxItems);
+    }
+    if (type === "organizations" || type === "all") {
+      result.organizations = await this.fetchAllPages(
+        "/organizations",
+        { tags: tag.id },
+        args.maxItems
+      );
+    }
+
+    return this.formatResponse(result, args);
+  }
+
+  /**
+   * Render a get/list result with the caller's `fields` and `format`, kept
+   * within the response budget.
+   */
+  private formatResponse(data: unknown, args: any) {
+    const format: OutputFormat = args.format ?? "json";
+    const max = this.config.maxResponseChars;
+    const { text, truncated, cut } = formatWithinBudget(
+      args.fields ? projectFields(data, args.fields) : data,
+      format,
+      max
+    );
+
+    const hint =
+      'To see the rest, request fewer items (itemsPerPage, maxItems or page), fewer fields (fields) or a denser format (format: "compact"), or use the export tool';
+    let note = "";
+    if (truncated) {
+      note = `\n\n[Truncated: showing ${truncated.shown} of ${truncated.total} items in "${truncated.list}" to stay within the ${max}-character response budget. ${hint}]`;
+    } else if (cut) {
+      note = `\n\n[Cut off at the ${max}-character response budget. ${hint}]`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: text + note,
+        },
+      ],
+    };
+  }
+
+  private bulkResponse(action: string, results: BulkItemResult[]) {
+    const succeeded = results.filter(({ status }) => status !== "failed" && status !== "skipped");
+    const failed = results.filter(({ status }) => status === "failed").length;
+    const skipped = results.length - succeeded.length - failed;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${succeeded.length} of ${results.length} ${action} (${failed} failed, ${skipped} skipped):\n${JSON.stringify(
+            results,
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
+  }
+
+  private async bulkCreate(endpoint: string, items: unknown, stopOnError: unknown) {
+    const records = Array.isArray(items) ? items : [];
+    const results = await runBulk(
+      records,
+      {
+        concurrency: this.config.bulkConcurrency,
+        stopOnError: stopOnError === true,
+        successStatus: "created",
+      },
+      async (record) => {
+        const data = await this.makeRequest(endpoint, {
+          method: "POST",
+          body: record,
+        });
+        return data?.id !== undefined ? String(data.id) : undefined;
+      }
+    );
+
+    return this.bulkResponse("created", results);
+  }
+
+  private async bulkUpdatePeople(args: any) {
+    const updates: any[] = args.updates ?? [];
+    // Updates of the same person would run in parallel against the same
+    // stale record and overwrite each other.
+    const ids = updates.map((update) => String(update.id));
+    const duplicates = [...new Set(ids.filter((id, index) => ids.indexOf(id) !== index))];
+    if (duplicates.length > 0) {
+      throw new Error(
+        `Each person may appear only once in updates; combine the updates for: ${duplicates.join(
+          ", "
+        )}`
+      );
+    }
+
+    const results = await runBulk(
+      updates,
+      {
+        concurrency: this.config.bulkConcurrency,
+        stopOnError: args.stopOnError === true,
+        successStatus: "updated",
+      },
+      async (update: any) => {
+        await this.mergeUpdate("bulk_update_people", "person", String(update.id), update);
+        return String(update.id);
+      }
+    );
+
+    return this.bulkResponse("updated", results);
+  }
+
+  private async bulkDelete(args: any) {
+    const kind = BULK_DELETE_TYPES[args.type];
+    const ids: string[] = (args.ids ?? []).map(String);
+    const { endpoint } = UNDOABLE_RECORDS[kind];
+
+    if (!this.config.skipDeleteConfirmation) {
+      const key = `bulk_delete:${endpoint}:${ids.join(",")}`;
+      if (args.confirmationToken === undefined) {
+        return this.previewBulkDeletion(kind, key, ids);
+      }
+      if (!this.workspace().confirmations.consume(key, String(args.confirmationToken))) {
+        throw new Error(
+          "Invalid or expired confirmationToken. Call bulk_delete again without a token to get a new preview"
+        );
+      }
+    }
+
+    const results = await runBulk(
+      ids,
+      {
+        concurrency: this.config.bulkConcurrency,
+        stopOnError: args.stopOnError === true,
+        successStatus: "deleted",
+      },
+      async (id) => {
+        await this.trackChange("bulk_delete", kind, id, "delete", () =>
+          this.makeRequest(`${endpoint}/${id}`, {
+            method: "DELETE",
+          })
+        );
+        return id;
+      }
+    );
+
+    return this.bulkResponse("deleted", results);
+  }
+
+  /**
+   * First step of bulk_delete: looks up every record, summarizes the first
+   * few and issues a confirmation token, unless some IDs do not exist.
+   */
+  private async previewBulkDeletion(kind: string, key: string, ids: string[]) {
+    const { endpoint, label } = UNDOABLE_RECORDS[kind];
+    const missing: string[] = [];
+    const records = await Promise.all(
+      ids.map(async (id) => {
+        try {
+          return await this.makeRequest(`${endpoint}/${id}`);
+        } catch (error) {
+          if (error instanceof ApiError && error.status === 404) {
+            missing.push(id);
+            return undefined;
+          }
+          throw error;
+        }
+      })
+    );
+
+    if (missing.length > 0) {
+      const notFound = ids.filter((id) => missing.includes(id));
+      throw new Error(
+        `No ${label.toLowerCase()} record exists with these IDs: ${notFound.join(
+          ", "
+        )}. Nothing was deleted; call bulk_delete again without them to get a confirmation token`
+      );
+    }
+
+    const summaries = records
+      .slice(0, BULK_PREVIEW_RECORDS)
+      .map((record) => summarizeRecord(record, DELETE_PREVIEW_FIELDS[kind]));
+    const more =
+      ids.length > BULK_PREVIEW_RECORDS ? `\n...and ${ids.length - BULK_PREVIEW_RECORDS} more` : "";
+    const { token, expiresAt } = this.workspace().confirmations.issue(key);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `This will permanently delete ${ids.length} ${label.toLowerCase()} record(s):\n${JSON.stringify(
+            summaries,
+            null,
+            2
+          )}${more}\n\nTo proceed, call bulk_delete again with the same type and ids and confirmationToken "${token}" (expires ${expiresAt.toISOString()}).`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Work out which field each CSV column feeds, from the explicit mapping or
+   * from the header names.
+   */
+  private mapCsvColumns(
+    header: string[],
+    target: (typeof CSV_IMPORT_TARGETS)[string],
+    mapping?: Record<string, unknown>
+  ): (string | undefined)[] {
+    let columns: (string | undefined)[];
+
+    if (mapping) {
+      columns = header.map(() => undefined);
+      for (const [column, field] of Object.entries(mapping)) {
+        const index = header.findIndex((name) => name.trim() === column.trim());
+        if (index < 0) {
+          throw new Error(`Column "${column}" not found in the CSV header`);
+        }
+        if (typeof field !== "string" || !(field in target.aliases)) {
+          throw new Error(
+            `Cannot map column "${column}" to ${JSON.stringify(field)}; use one of ${Object.keys(
+              target.aliases
+            ).join(", ")}`
+          );
+        }
+        columns[index] = field;
+      }
+    } else {
+      const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "");
+      const used = new Set<string>();
+      columns = header.map((name) => {
+        const match = Object.entries(target.aliases).find(
+          ([field, aliases]) => !used.has(field) && aliases.includes(normalize(name))
+        );
+        if (match) {
+          used.add(match[0]);
+        }
+        return match?.[0];
+      });
+    }
+
+    const nameFields = ["name", "first_name", "last_name"];
+    if (!columns.some((field) => field !== undefined && nameFields.includes(field))) {
+      throw new Error(
+        `No CSV column maps to name (header: ${header.join(", ")}). Pass a mapping to choose the columns`
+      );
+    }
+
+    return columns;
+  }
+
+  private async importCsv(args: any) {
+    if ((args.csv === undefined) === (args.filePath === undefined)) {
+      throw new Error("Pass either csv or filePath");
+    }
+    if (args.filePath !== undefined && this.config.transport === "http") {
+      throw new Error("filePath is only available over stdio; pass the CSV text as csv instead");
+    }
+
+    const target = CSV_IMPORT_TARGETS[args.type];
+    const text = args.csv ?? (await readFile(String(args.filePath), "utf8"));
+    const [header, ...rows] = parseCsv(text, args.delimiter);
+    if (!header) {
+      throw new Error("The CSV is empty");
+    }
+    if (rows.length > BULK_MAX_ITEMS) {
+      throw new Error(
+        `The CSV has ${rows.length} data rows; import at most ${BULK_MAX_ITEMS} per call`
+      );
+    }
+
+    const columns = this.mapCsvColumns(header, target, args.mapping);
+    const recordSchema: JsonSchema = {
+      type: "object",
+      properties: target.fields,
+      required: ["name"],
+    };
+
+    // Spreadsheet row numbers: the header is row 1. Rows with only empty
+    // cells are left out.
+    const parsed = rows.flatMap((cells, index) => {
+      if (cells.every((cell) => cell.trim() === "")) {
+        return [];
+      }
+
+      const values: Record<string, string> = {};
+      columns.forEach((field, column) => {
+        const value = cells[column]?.trim();
+        if (field && value) {
+          values[field] = value;
+        }
+      });
+
+      const { first_name, last_name, ...fields } = values;
+      const record: Record<string, unknown> = { ...fields };
+      if (record.name === undefined && (first_name || last_name)) {
+        record.name = [first_name, last_name].filter(Boolean).join(" ");
+      }
+
+      const errors: string[] = [];
+      for (const [field, value] of Object.entries(record)) {
+        const type = target.fields[field]?.type;
+        if (type === "number" || type === "integer") {
+          const number = Number(String(value).replace(/[,\s]/g, ""));
+          if (Number.isNaN(number)) {
+            errors.push(`${field} "${value}" is not a number`);
+            delete record[field];
+          } else {
+            record[field] = number;
+          }
+        }
+      }
+      errors.push(...validateSchema(record, recordSchema));
+      if (typeof record.email === "string" && !EMAIL_PATTERN.test(record.email)) {
+        errors.push(`email "${record.email}" is not a valid email address`);
+      }
+
+      return [{ row: index + 2, record, errors }];
+    });
+
+    // Likely duplicates: same email as an existing record or an earlier row,
+    // or the same name when the row has no email.
+    const duplicateKeys = (record: Record<string, unknown>) =>
+      [
+        typeof record.email === "string" ? `email "${record.email.toLowerCase()}"` : undefined,
+        typeof record.name === "string" ? `name "${record.name.toLowerCase()}"` : undefined,
+      ].filter((key): key is string => key !== undefined);
+
+    const existing = await this.fetchAllPages(target.endpoint, {});
+    const known = new Map<string, string>();
+    for (const item of existing.items) {
+      for (const key of duplicateKeys(item)) {
+        known.set(key, `${target.label} ${item.id}`);
+      }
+    }
+
+    const duplicates = new Map<number, string>();
+    for (const { row, record, errors } of parsed) {
+      if (errors.length > 0) {
+        continue;
+      }
+      const [key] = duplicateKeys(record);
+      const match = known.get(key);
+      if (match) {
+        duplicates.set(row, `${key} matches ${match}`);
+      }
+      for (const key of duplicateKeys(record)) {
+        if (!known.has(key)) {
+          known.set(key, `row ${row}`);
+        }
+      }
+    }
+
+    const invalid = parsed.filter(({ errors }) => errors.length > 0);
+    const valid = parsed.filter(({ errors }) => errors.length === 0);
+    const report = {
+      type: args.type,
+      rows: parsed.length,
+      columns: Object.fromEntries(header.map((name, index) => [name, columns[index] ?? null])),
+      invalid: invalid.map(({ row, errors }) => ({ row, errors })),
+      duplicates: [...duplicates].map(([row, reason]) => ({ row, reason })),
+      ...(existing.truncated && {
+        note: `Only the first ${existing.count} existing ${args.type} were checked for duplicates`,
+      }),
+    };
+
+    if (args.dryRun !== false) {
+      return {
+        content: [
           {
-            name: "update_tag",
-            description: "Update an existing tag",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the tag to update",
-                },
-                title: {
-                  type: "string",
-                  description: "Tag name",
-                },
-                backgroundColor: {
-                  type: "string",
-                  description: "Label background color (optional)",
-                },
-                textColor: {
-                  type: "string",
-                  description: "Label text color (optional)",
-                },
-                description: {
-                  type: "string",
-                  description: "Tag description (optional)",
-                },
-              },
-              required: ["id", "title"],
-            },
+            type: "text",
+            text: `Dry run: ${parsed.length} rows, ${valid.length} valid, ${invalid.length} invalid, ${duplicates.size} likely duplicates. Nothing was created; call import_csv again with dryRun: false to import.\n${JSON.stringify(
+              report,
+              null,
+              2
+            )}`,
           },
+        ],
+      };
+    }
+
+    const toCreate = valid.filter(
+      ({ row }) => args.skipDuplicates === false || !duplicates.has(row)
+    );
+    const results = await runBulk(
+      toCreate,
+      {
+        concurrency: this.config.bulkConcurrency,
+        stopOnError: false,
+        successStatus: "created",
+      },
+      async ({ record }) => {
+        const data = await this.makeRequest(target.endpoint, {
+          method: "POST",
+          body: record,
+        });
+        return data?.id !== undefined ? String(data.id) : undefined;
+      }
+    );
+
+    const created = results.filter(({ status }) => status === "created").length;
+    const skippedDuplicates = valid.length - toCreate.length;
+    const summary = {
+      ...report,
+      results: results.map(({ index, status, id, error }) => ({
+        row: toCreate[index].row,
+        status,
+        id,
+        error,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Imported ${created} of ${parsed.length} rows (${invalid.length} invalid, ${skippedDuplicates} duplicates skipped, ${
+            results.length - created
+          } failed):\n${JSON.stringify(summary, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  private async findDuplicatePeople(args: any) {
+    const people = await this.fetchAllPages("/people", {}, args.maxItems);
+    const byId = new Map(people.items.map((person) => [String(person.id), person]));
+    const groups = findDuplicateGroups(
+      people.items.map((person) => ({ ...person, id: String(person.id) })),
+      args.minConfidence ?? 0.5
+    );
+
+    // Suggest keeping the most complete record.
+    const filledFields = (id: string) =>
+      Object.values(toWritableFields(byId.get(id))).filter(
+        (value) => value !== null && value !== "" && !(Array.isArray(value) && value.length === 0)
+      ).length;
+
+    const result = {
+      scanned: people.count,
+      truncated: people.truncated,
+      groups: groups.slice(0, args.limit ?? 50).map(({ confidence, ids, matches }) => ({
+        confidence,
+        suggestedPrimaryId: ids.reduce((best, id) =>
+          filledFields(id) > filledFields(best) ? id : best
+        ),
+        people: ids.map((id) => {
+          const { name, email, phone } = byId.get(id);
+          return { id, name, email, phone };
+        }),
+        matches,
+      })),
+    };
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Found ${groups.length} group(s) of likely duplicates among ${people.count} people${
+            people.truncated ? " (scan stopped early, see truncated)" : ""
+          }:\n${JSON.stringify(result, null, 2)}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Work out what merging the duplicates into the primary person changes:
+   * the primary record's new field values, conflicting values, and the
+   * tasks that move over.
+   */
+  private async planMerge(primaryId: string, duplicateIds: string[]) {
+    const primary = await this.makeRequest(`/people/${primaryId}`);
+    const duplicates: any[] = [];
+    for (const id of duplicateIds) {
+      duplicates.push(await this.makeRequest(`/people/${id}`));
+    }
+
+    const isEmpty = (value: unknown) =>
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0);
+    const format = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+    // Values that only differ in case, spacing or formatting are not conflicts.
+    const normalizers: Record<string, (value?: string) => string | undefined> = {
+      email: normalizeEmail,
+      phone: normalizePhone,
+      name: normalizeName,
+    };
+    const isSameValue = (field: string, a: unknown, b: unknown) => {
+      const normalize = normalizers[field];
+      if (!normalize) {
+        return format(a).trim().toLowerCase() === format(b).trim().toLowerCase();
+      }
+      const [left, right] = [normalize(format(a)), normalize(format(b))];
+      // Values the normalizer cannot handle, such as short extensions, are
+      // compared as written so different ones are never merged away.
+      if (left === undefined || right === undefined) {
+        return format(a).trim() === format(b).trim();
+      }
+      return left === right;
+    };
+
+    const merged: Record<string, unknown> = {};
+    const conflicts: {
+      field: string;
+      kept: unknown;
+      dropped: { id: string; value: unknown }[];
+    }[] = [];
+    const notes = isEmpty(primary.notes) ? [] : [String(primary.notes)];
+    const mergedFrom: string[] = [];
+
+    duplicateIds.forEach((id, index) => {
+      const duplicate = duplicates[index];
+      const lost: string[] = [];
+
+      for (const [field, value] of Object.entries(toWritableFields(duplicate))) {
+        if (field === "notes" || MERGE_LINKED_FIELDS.includes(field) || isEmpty(value)) {
+          continue;
+        }
+        const current = merged[field] ?? primary[field];
+        if (isEmpty(current)) {
+          merged[field] = value;
+        } else if (!isSameValue(field, current, value)) {
+          const conflict = conflicts.find((item) => item.field === field);
+          if (conflict) {
+            conflict.dropped.push({ id, value });
+          } else {
+            conflicts.push({ field, kept: current, dropped: [{ id, value }] });
+          }
+          lost.push(`${field}: ${format(value)}`);
+        }
+      }
+
+      const duplicateNotes = String(duplicate.notes ?? "");
+      if (duplicateNotes && !notes.some((note) => note.includes(duplicateNotes))) {
+        notes.push(duplicateNotes);
+      }
+      if (lost.length > 0) {
+        mergedFrom.push(`Merged from person ${id}: ${lost.join("; ")}`);
+      }
+    });
+
+    const combinedNotes = [...notes, ...mergedFrom].join("\n\n");
+    if (combinedNotes !== (primary.notes ?? "")) {
+      merged.notes = combinedNotes;
+    }
+
+    for (const field of MERGE_LINKED_FIELDS) {
+      const ids = getLinkedIds(primary, field);
+      const combined = [
+        ...new Set([...ids, ...duplicates.flatMap((record) => getLinkedIds(record, field))]),
+      ];
+      if (combined.length > ids.length) {
+        merged[field] = combined;
+      }
+    }
+
+    const tasks = new Map<string, { id: string; title?: string; changes: Record<string, string> }>();
+    for (const id of duplicateIds) {
+      for (const field of ["person_id", "assignee_id"]) {
+        const { items } = await this.fetchAllPages("/tasks", { [field]: id }, undefined, Infinity);
+        for (const task of items) {
+          const entry = tasks.get(String(task.id)) ?? {
+            id: String(task.id),
+            title: task.title,
+            changes: {} as Record<string, string>,
+          };
+          entry.changes[field] = primaryId;
+          tasks.set(entry.id, entry);
+        }
+      }
+    }
+
+    return {
+      primary: { id: primaryId, name: primary.name },
+      changes: Object.fromEntries(
+        Object.entries(merged).map(([field, value]) => [
+          field,
+          { from: primary[field] ?? null, to: value },
+        ])
+      ),
+      conflicts,
+      tasks: [...tasks.values()],
+      delete: duplicates.map((record, index) => ({ id: duplicateIds[index], name: record.name })),
+      merged,
+      snapshots: duplicates,
+    };
+  }
+
+  private async mergePeople(args: any) {
+    const primaryId = String(args.primaryId);
+    const duplicateIds: string[] = [...new Set<string>(args.duplicateIds.map(String))];
+    if (duplicateIds.includes(primaryId)) {
+      throw new Error("duplicateIds must not include primaryId");
+    }
+
+    const { merged, snapshots, ...plan } = await this.planMerge(primaryId, duplicateIds);
+    const key = `merge_people:${primaryId}:${duplicateIds.join(",")}`;
+
+    if (args.dryRun !== false) {
+      const confirmation = this.config.skipDeleteConfirmation
+        ? ""
+        : (() => {
+            const { token, expiresAt } = this.workspace().confirmations.issue(key);
+            return ` and confirmationToken "${token}" (expires ${expiresAt.toISOString()})`;
+          })();
+      return {
+        content: [
           {
-            name: "delete_tag",
-            description: "Delete a tag",
-            inputSchema: {
-              type: "object",
-              properties: {
-                id: {
-                  type: "string",
-                  description: "The ID of the tag to delete",
-                },
-              },
-              required: ["id"],
-            },
+            type: "text",
+            text: `Dry run, nothing was changed. To merge, call merge_people again with the same primaryId and duplicateIds, dryRun: false${confirmation}.\n${JSON.stringify(
+              plan,
+              null,
+              2
+            )}`,
           },
         ],
       };
+    }
+
+    if (
+      !this.config.skipDeleteConfirmation &&
+      !this.workspace().confirmations.consume(key, String(args.confirmationToken ?? ""))
+    ) {
+      throw new Error(
+        "Invalid or expired confirmationToken. Call merge_people with dryRun: true to review the merge and get a token"
+      );
+    }
+
+    // Each step is recorded separately, so a merge that stops halfway can
+    // be reverted step by step with undo_change.
+    const completed: { step: string; changeId?: string }[] = [];
+    try {
+      if (Object.keys(merged).length > 0) {
+        const { changeId } = await this.mergeUpdate("merge_people", "person", primaryId, merged);
+        completed.push({ step: `updated person ${primaryId}`, changeId });
+      }
+      for (const task of plan.tasks) {
+        const { changeId } = await this.mergeUpdate("merge_people", "task", task.id, task.changes);
+        completed.push({ step: `moved task ${task.id}`, changeId });
+      }
+      for (const [index, id] of duplicateIds.entries()) {
+        const { changeId } = await this.trackChange(
+          "merge_people",
+          "person",
+          id,
+          "delete",
+          () => this.makeRequest(`/people/${id}`, { method: "DELETE" }),
+          snapshots[index]
+        );
+        completed.push({ step: `deleted person ${id}`, changeId });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new Error(
+        `Merge stopped: ${message}. Completed steps: ${JSON.stringify(completed)}`
+      );
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Merged ${duplicateIds.length} duplicate(s) into person ${primaryId}:\n${JSON.stringify(
+            { ...plan, completed },
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Fetch every page of a collection and write it to a file. Shared by the
+   * export tool and the `export` command.
+   */
+  async exportRecords(args: any) {
+    if (args.path !== undefined && this.config.transport === "http") {
+      throw new Error("path is only available over stdio; exports go to the default directory");
+    }
+
+    const endpoint = EXPORT_ENDPOINTS[args.type];
+    const format: ExportFormat = args.format ?? "csv";
+    const path = resolve(
+      args.path ??
+        join(
+          homedir(),
+          ".rogerroger-mcp",
+          "exports",
+          `${args.type}-${new Date().toISOString().replace(/[:.]/g, "-")}.${format}`
+        )
+    );
+
+    // Exports are meant to be complete, so ROGERROGER_MAX_PAGINATED_ITEMS
+    // does not apply.
+    const { items } = await this.fetchAllPages(endpoint, {}, args.maxItems, Infinity);
+    const { content, columns } = serializeRecords(items, format, args.columns);
+
+    await mkdir(dirname(path), { recursive: true });
+    try {
+      await writeFile(path, content, { flag: args.overwrite ? "w" : "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new Error(`${path} already exists; pass overwrite: true to replace it`);
+      }
+      throw error;
+    }
+
+    return { type: args.type, path, format, rows: items.length, columns };
+  }
+
+  private async getAuditLog(args: any) {
+    if (!this.auditLog) {
+      throw new Error("The audit log is disabled (ROGERROGER_AUDIT_LOG=off)");
+    }
+
+    const since = args.since ? Date.parse(args.since) : undefined;
+    if (since !== undefined && Number.isNaN(since)) {
+      throw new Error(`Invalid date for since: ${args.since}`);
+    }
+
+    const workspace = selectedWorkspace.getStore();
+    const entries = await this.auditLog.read(
+      (entry) =>
+        (since === undefined || Date.parse(entry.timestamp) >= since) &&
+        (!args.tool || matchesGlob(entry.tool, args.tool)) &&
+        (!workspace || (entry.workspace ?? DEFAULT_WORKSPACE_NAME) === workspace),
+      args.limit ? Number(args.limit) : 50
+    );
+
+    return this.formatResponse(entries, args);
+  }
+
+  /**
+   * Snapshot a record before running a mutation on it, and remember the
+   * snapshot once the mutation succeeds so it can be undone.
+   */
+  private async trackChange(
+    tool: string,
+    kind: string,
+    recordId: string,
+    action: ChangeEntry["action"],
+    mutate: () => Promise<any>,
+    snapshot?: Record<string, unknown>
+  ): Promise<{ data: any; changeId?: string }> {
+    if (!this.config.changeHistory.enabled) {
+      return { data: await mutate() };
+    }
+
+    const { endpoint } = UNDOABLE_RECORDS[kind];
+    const before = snapshot ?? (await this.makeRequest(`${endpoint}/${recordId}`));
+    const data = await mutate();
+    const change = await this.changeHistory.add({
+      workspace: this.workspace().name,
+      tool,
+      kind,
+      recordId,
+      action,
+      before,
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    return { data, changeId: change.id };
+  }
 
-      try {
-        switch (name) {
-          case "get_people":
-            return await this.getPeople(args || {});
-          case "get_person":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.getPerson(String(args.id));
-          case "create_person":
-            return await this.createPerson(args || {});
-          case "update_person":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.updatePerson(String(args.id), args);
-          case "delete_person":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.deletePerson(String(args.id));
-          case "get_tasks":
-            return await this.getTasks(args || {});
-          case "create_task":
-            return await this.createTask(args || {});
-          case "get_organizations":
-            return await this.getOrganizations(args || {});
-          case "get_organization":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.getOrganization(String(args.id));
-          case "create_organization":
-            return await this.createOrganization(args || {});
-          case "update_organization":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.updateOrganization(String(args.id), args);
-          case "delete_organization":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.deleteOrganization(String(args.id));
-          case "get_lists":
-            return await this.getLists(args || {});
-          case "get_list":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.getList(String(args.id));
-          case "create_list":
-            return await this.createList(args || {});
-          case "update_list":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.updateList(String(args.id), args);
-          case "delete_list":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.deleteList(String(args.id));
-          case "get_tags":
-            return await this.getTags(args || {});
-          case "get_tag":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.getTag(String(args.id));
-          case "create_tag":
-            return await this.createTag(args || {});
-          case "update_tag":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.updateTag(String(args.id), args);
-          case "delete_tag":
-            if (!args || typeof args !== "object" || !("id" in args)) {
-              throw new Error("Missing required parameter: id");
-            }
-            return await this.deleteTag(String(args.id));
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`,
+  /**
+   * Update a record behind a full-replace PUT endpoint without losing the
+   * fields the caller left out: fetch the current record, merge the changes
+   * into it and send the result. Refuses to overwrite a record that changed
+   * since the caller read it, unless forced.
+   */
+  private async mergeUpdate(
+    tool: string,
+    kind: string,
+    id: string,
+    args: any,
+    deriveChanges?: (current: any) => Record<string, unknown>
+  ) {
+    const { id: _, expectedUpdatedAt, force, ...changes } = args;
+    const { endpoint, label } = UNDOABLE_RECORDS[kind];
+    const url = `${endpoint}/${id}`;
+
+    let etag: string | undefined;
+    const current = await this.makeRequest(url, {
+      onResponseHeaders: (headers) => {
+        etag = headers.get("etag") ?? undefined;
+      },
+    });
+
+    const currentUpdatedAt = getUpdatedAt(current);
+    if (
+      !force &&
+      expectedUpdatedAt &&
+      currentUpdatedAt &&
+      !isSameTimestamp(currentUpdatedAt, String(expectedUpdatedAt))
+    ) {
+      throw new Error(
+        `${label} ${id} was modified at ${currentUpdatedAt}, after the version you read (${expectedUpdatedAt}). Fetch it again and retry, or pass force: true to overwrite`
+      );
+    }
+
+    try {
+      return await this.trackChange(
+        tool,
+        kind,
+        id,
+        "update",
+        () =>
+          this.makeRequest(url, {
+            method: "PUT",
+            body: {
+              ...toWritableFields(current),
+              ...changes,
+              ...deriveChanges?.(current),
             },
-          ],
-        };
+            headers: etag && !force ? { "If-Match": etag } : undefined,
+          }),
+        current
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 412) {
+        throw new Error(
+          `${label} ${id} was modified by someone else while it was being updated. Fetch it again and retry, or pass force: true to overwrite`
+        );
       }
-    });
+      throw error;
+    }
   }
 
-  private async makeRequest(
-    endpoint: string,
-    options: {
-      method?: string;
-      body?: any;
-      params?: Record<string, string>;
-    } = {}
-  ): Promise<any> {
-    if (!this.config.apiKey) {
-      throw new Error("ROGERROGER_API_KEY environment variable is required");
+  private changeNote(changeId?: string): string {
+    return changeId ? `\n\nChange ID: ${changeId} (pass it to undo_change to revert)` : "";
+  }
+
+  private async listRecentChanges(args: any) {
+    const workspace = selectedWorkspace.getStore();
+    const changes = await this.changeHistory.list(
+      args.limit ? Number(args.limit) : 20,
+      (change) => !workspace || (change.workspace ?? DEFAULT_WORKSPACE_NAME) === workspace
+    );
+
+    return this.formatResponse(changes.map(({ before: _, ...change }) => change), args);
+  }
+
+  private async undoChange(changeId: string) {
+    const change = await this.changeHistory.get(changeId);
+    if (!change) {
+      throw new Error(`Unknown change: ${changeId}`);
+    }
+    if (change.undoneAt) {
+      throw new Error(`Change ${changeId} was already undone at ${change.undoneAt}`);
     }
 
-    const { method = "GET", body, params } = options;
-    let url = `${this.config.baseUrl}${endpoint}`;
+    const requested = selectedWorkspace.getStore();
+    const workspace = change.workspace ?? requested;
+    if (requested && workspace !== requested) {
+      throw new Error(`Change ${changeId} was made in workspace ${workspace}, not ${requested}`);
+    }
+    return await selectedWorkspace.run(workspace, () => this.restoreSnapshot(change));
+  }
 
-    if (params) {
-      const searchParams = new URLSearchParams(params);
-      url += `?${searchParams.toString()}`;
+  private async restoreSnapshot(change: ChangeEntry) {
+    if (this.workspace().readOnly) {
+      throw new Error(`Workspace ${this.workspace().name} is read-only`);
     }
 
-    const headers: Record<string, string> = {
-      "X-API-KEY": this.config.apiKey,
-      "Content-Type": "application/json",
-    };
+    const { endpoint, updateMethod, label } = UNDOABLE_RECORDS[change.kind];
+    const fields = toWritableFields(change.before);
 
-    const response = await fetch(url, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    if (change.action === "update") {
+      const data = await this.makeRequest(`${endpoint}/${change.recordId}`, {
+        method: updateMethod,
+        body: fields,
+      });
+      await this.changeHistory.markUndone(change.id);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${label} ${change.recordId} restored to its state before ${change.tool}: ${JSON.stringify(
+              data,
+              null,
+              2
+            )}`,
+          },
+        ],
+      };
     }
 
-    return await response.json();
+    const data = await this.makeRequest(endpoint, {
+      method: "POST",
+      body: fields,
+    });
+    const restoredId = data?.id !== undefined ? String(data.id) : undefined;
+    await this.changeHistory.markUndone(change.id, restoredId);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${label} ${change.recordId} re-created with new ID ${restoredId}: ${JSON.stringify(
+            data,
+            null,
+            2
+          )}`,
+        },
+      ],
+    };
   }
 
   private async getPeople(args: any) {
@@ -668,33 +3599,113 @@ class RogerRogerMCP {
     if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
     if (args.q) params.q = args.q;
 
-    const data = await this.makeRequest("/people", { params });
+    const data =
+      args.all || args.maxItems
+        ? await this.fetchAllPages("/people", params, args.maxItems)
+        : await this.makeRequest("/people", { params });
+
+    return this.formatResponse(data, args);
+  }
+
+  private async getPerson(id: string, args: any) {
+    const data = await this.makeRequest(`/people/${id}`);
+    const included = await this.fetchIncluded(data, args.include, {
+      organizations: () =>
+        this.fetchLinkedRecords("/organizations", getLinkedIds(data, "organizations")),
+      tasks: () => this.fetchAllPages("/tasks", { person_id: id }),
+    });
+
+    return this.formatResponse(included ? { person: data, ...included } : data, args);
+  }
+
+  private async createPerson(args: any) {
+    const data = await this.makeRequest("/people", {
+      method: "POST",
+      body: args,
+    });
 
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(data, null, 2),
+          text: `Person created successfully: ${JSON.stringify(data, null, 2)}`,
         },
       ],
     };
   }
 
-  private async getPerson(id: string) {
-    const data = await this.makeRequest(`/people/${id}`);
+  private async updatePerson(id: string, args: any) {
+    const { data, changeId } = await this.mergeUpdate("update_person", "person", id, args);
 
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(data, null, 2),
+          text: `Person updated successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async createPerson(args: any) {
-    const data = await this.makeRequest("/people", {
+  private async deletePerson(id: string, confirmationToken?: unknown) {
+    const preview = await this.previewDeletion(
+      "person",
+      `/people/${id}`,
+      confirmationToken,
+      DELETE_PREVIEW_FIELDS.person
+    );
+    if (preview) {
+      return preview;
+    }
+
+    const { changeId } = await this.trackChange(
+      "delete_person",
+      "person",
+      id,
+      "delete",
+      () =>
+        this.makeRequest(`/people/${id}`, {
+          method: "DELETE",
+        })
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Person with ID ${id} deleted successfully${this.changeNote(changeId)}`,
+        },
+      ],
+    };
+  }
+
+  private async getTasks(args: any) {
+    const params: Record<string, string> = {};
+    if (args.page) params.page = args.page.toString();
+    if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
+    if (args.status) params.status = args.status;
+    if (args.assignee_id) params.assignee_id = String(args.assignee_id);
+    if (args.person_id) params.person_id = String(args.person_id);
+    if (args.organization_id) params.organization_id = String(args.organization_id);
+    if (args.due_after) params["due_date[after]"] = args.due_after;
+    if (args.due_before) params["due_date[before]"] = args.due_before;
+    if (args.overdue) {
+      params["due_date[strictly_before]"] = new Date().toISOString().slice(0, 10);
+      if (!args.status) params.status = TASK_STATUS_OPEN;
+    }
+
+    const data =
+      args.all || args.maxItems
+        ? await this.fetchAllPages("/tasks", params, args.maxItems)
+        : await this.makeRequest("/tasks", { params });
+
+    return this.formatResponse(data, args);
+  }
+
+  private async createTask(args: any) {
+    const data = await this.makeRequest("/tasks", {
       method: "POST",
       body: args,
     });
@@ -703,73 +3714,94 @@ class RogerRogerMCP {
       content: [
         {
           type: "text",
-          text: `Person created successfully: ${JSON.stringify(data, null, 2)}`,
+          text: `Task created successfully: ${JSON.stringify(data, null, 2)}`,
         },
       ],
     };
   }
 
-  private async updatePerson(id: string, args: any) {
-    const { id: _, ...updateData } = args;
-    const data = await this.makeRequest(`/people/${id}`, {
-      method: "PUT",
-      body: updateData,
-    });
+  private async getTask(id: string, args: any) {
+    const data = await this.makeRequest(`/tasks/${id}`);
+
+    return this.formatResponse(data, args);
+  }
+
+  private async updateTask(id: string, args: any) {
+    const { data, changeId } = await this.mergeUpdate("update_task", "task", id, args);
 
     return {
       content: [
         {
           type: "text",
-          text: `Person updated successfully: ${JSON.stringify(data, null, 2)}`,
+          text: `Task updated successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async deletePerson(id: string) {
-    await this.makeRequest(`/people/${id}`, {
-      method: "DELETE",
+  private async completeTask(id: string) {
+    const { data, changeId } = await this.mergeUpdate("complete_task", "task", id, {
+      status: TASK_STATUS_COMPLETED,
     });
 
     return {
       content: [
         {
           type: "text",
-          text: `Person with ID ${id} deleted successfully`,
+          text: `Task completed successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async getTasks(args: any) {
-    const params: Record<string, string> = {};
-    if (args.page) params.page = args.page.toString();
-    if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
-    if (args.status) params.status = args.status;
-
-    const data = await this.makeRequest("/tasks", { params });
+  private async reopenTask(id: string, args: any) {
+    const changes: Record<string, unknown> = { status: TASK_STATUS_OPEN };
+    if (args.due_date) changes.due_date = args.due_date;
+    const { data, changeId } = await this.mergeUpdate("reopen_task", "task", id, changes);
 
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(data, null, 2),
+          text: `Task reopened successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async createTask(args: any) {
-    const data = await this.makeRequest("/tasks", {
-      method: "POST",
-      body: args,
-    });
+  private async deleteTask(id: string, confirmationToken?: unknown) {
+    const preview = await this.previewDeletion(
+      "task",
+      `/tasks/${id}`,
+      confirmationToken,
+      DELETE_PREVIEW_FIELDS.task
+    );
+    if (preview) {
+      return preview;
+    }
+
+    const { changeId } = await this.trackChange(
+      "delete_task",
+      "task",
+      id,
+      "delete",
+      () =>
+        this.makeRequest(`/tasks/${id}`, {
+          method: "DELETE",
+        })
+    );
 
     return {
       content: [
         {
           type: "text",
-          text: `Task created successfully: ${JSON.stringify(data, null, 2)}`,
+          text: `Task with ID ${id} deleted successfully${this.changeNote(changeId)}`,
         },
       ],
     };
@@ -781,31 +3813,93 @@ class RogerRogerMCP {
     if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
     if (args.q) params.q = args.q;
 
-    const data = await this.makeRequest("/organizations", { params });
+    const data =
+      args.all || args.maxItems
+        ? await this.fetchAllPages("/organizations", params, args.maxItems)
+        : await this.makeRequest("/organizations", { params });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
+    return this.formatResponse(data, args);
   }
 
-  private async getOrganization(id: string) {
+  private async getOrganization(id: string, args: any) {
     const data = await this.makeRequest(`/organizations/${id}`);
+    const included = await this.fetchIncluded(data, args.include, {
+      people: () => this.fetchAllPages("/people", { organizations: id }),
+      tasks: () => this.fetchAllPages("/tasks", { organization_id: id }),
+    });
+
+    return this.formatResponse(included ? { organization: data, ...included } : data, args);
+  }
+
+  private async getOrganizationPeople(organizationId: string, args: any) {
+    const params: Record<string, string> = { organizations: organizationId };
+    if (args.page) params.page = args.page.toString();
+    if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
+
+    const data =
+      args.all || args.maxItems
+        ? await this.fetchAllPages("/people", params, args.maxItems)
+        : await this.makeRequest("/people", { params });
+
+    return this.formatResponse(data, args);
+  }
+
+  private async setOrganizationLink(tool: string, personId: string, organizationId: string) {
+    const link = tool === "link_person_to_organization";
+
+    // Fails early with a clear error when the organization does not exist.
+    const organization = await this.makeRequest(`/organizations/${organizationId}`);
+    const { data, changeId } = await this.mergeUpdate(tool, "person", personId, {}, (current) => {
+      const organizationIds = getLinkedIds(current, "organizations").filter(
+        (id) => id !== organizationId
+      );
+      return { organizations: link ? [...organizationIds, organizationId] : organizationIds };
+    });
 
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(data, null, 2),
+          text: `Person ${personId} ${link ? "linked to" : "unlinked from"} ${
+            organization?.name ?? `organization ${organizationId}`
+          }: ${JSON.stringify(data, null, 2)}${this.changeNote(changeId)}`,
         },
       ],
     };
   }
 
+  /**
+   * Fetch the linked records named in `include` for get_person and
+   * get_organization. Tags and lists are shared; other relations come from
+   * `loaders`. Returns undefined when nothing was requested.
+   */
+  private async fetchIncluded(
+    record: any,
+    include: unknown,
+    loaders: Record<string, () => Promise<unknown>>
+  ): Promise<Record<string, unknown> | undefined> {
+    if (!Array.isArray(include) || include.length === 0) {
+      return undefined;
+    }
+
+    const allLoaders: Record<string, () => Promise<unknown>> = {
+      ...loaders,
+      tags: () => this.fetchLinkedRecords("/tags", getLinkedIds(record, "tags")),
+      lists: () => this.fetchLinkedRecords("/segments", getLinkedIds(record, "segments")),
+    };
+
+    const entries = await Promise.all(
+      [...new Set(include.map(String))]
+        .filter((name) => allLoaders[name])
+        .map(async (name) => [name, await allLoaders[name]()] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+
+  private async fetchLinkedRecords(endpoint: string, ids: string[]) {
+    return await Promise.all(ids.map((id) => this.makeRequest(`${endpoint}/${id}`)));
+  }
+
   private async createOrganization(args: any) {
     const data = await this.makeRequest("/organizations", {
       method: "POST",
@@ -823,32 +3917,47 @@ class RogerRogerMCP {
   }
 
   private async updateOrganization(id: string, args: any) {
-    const { id: _, ...updateData } = args;
-    const data = await this.makeRequest(`/organizations/${id}`, {
-      method: "PUT",
-      body: updateData,
-    });
+    const { data, changeId } = await this.mergeUpdate("update_organization", "organization", id, args);
 
     return {
       content: [
         {
           type: "text",
-          text: `Organization updated successfully: ${JSON.stringify(data, null, 2)}`,
+          text: `Organization updated successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async deleteOrganization(id: string) {
-    await this.makeRequest(`/organizations/${id}`, {
-      method: "DELETE",
-    });
+  private async deleteOrganization(id: string, confirmationToken?: unknown) {
+    const preview = await this.previewDeletion(
+      "organization",
+      `/organizations/${id}`,
+      confirmationToken,
+      DELETE_PREVIEW_FIELDS.organization
+    );
+    if (preview) {
+      return preview;
+    }
+
+    const { changeId } = await this.trackChange(
+      "delete_organization",
+      "organization",
+      id,
+      "delete",
+      () =>
+        this.makeRequest(`/organizations/${id}`, {
+          method: "DELETE",
+        })
+    );
 
     return {
       content: [
         {
           type: "text",
-          text: `Organization with ID ${id} deleted successfully`,
+          text: `Organization with ID ${id} deleted successfully${this.changeNote(changeId)}`,
         },
       ],
     };
@@ -859,29 +3968,18 @@ class RogerRogerMCP {
     if (args.page) params.page = args.page.toString();
     if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
 
-    const data = await this.makeRequest("/segments", { params });
+    const data =
+      args.all || args.maxItems
+        ? await this.fetchAllPages("/segments", params, args.maxItems)
+        : await this.makeRequest("/segments", { params });
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
+    return this.formatResponse(data, args);
   }
 
-  private async getList(id: string) {
+  private async getList(id: string, args: any) {
     const data = await this.makeRequest(`/segments/${id}`);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
+    return this.formatResponse(data, args);
   }
 
   private async createList(args: any) {
@@ -902,64 +4000,158 @@ class RogerRogerMCP {
 
   private async updateList(id: string, args: any) {
     const { id: _, ...updateData } = args;
-    const data = await this.makeRequest(`/segments/${id}`, {
-      method: "PATCH",
-      body: updateData,
-    });
+    const { data, changeId } = await this.trackChange(
+      "update_list",
+      "list",
+      id,
+      "update",
+      () =>
+        this.makeRequest(`/segments/${id}`, {
+          method: "PATCH",
+          body: updateData,
+        })
+    );
 
     return {
       content: [
         {
           type: "text",
-          text: `List updated successfully: ${JSON.stringify(data, null, 2)}`,
+          text: `List updated successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async deleteList(id: string) {
-    await this.makeRequest(`/segments/${id}`, {
-      method: "DELETE",
-    });
+  private async deleteList(id: string, confirmationToken?: unknown) {
+    const preview = await this.previewDeletion(
+      "list",
+      `/segments/${id}`,
+      confirmationToken,
+      DELETE_PREVIEW_FIELDS.list
+    );
+    if (preview) {
+      return preview;
+    }
+
+    const { changeId } = await this.trackChange(
+      "delete_list",
+      "list",
+      id,
+      "delete",
+      () =>
+        this.makeRequest(`/segments/${id}`, {
+          method: "DELETE",
+        })
+    );
 
     return {
       content: [
         {
           type: "text",
-          text: `List with ID ${id} deleted successfully`,
+          text: `List with ID ${id} deleted successfully${this.changeNote(changeId)}`,
         },
       ],
     };
   }
 
-  private async getTags(args: any) {
-    const params: Record<string, string> = {};
+  private async getListMembers(listId: string, args: any) {
+    const type = args.type ?? "all";
+    const params: Record<string, string> = { segments: listId };
     if (args.page) params.page = args.page.toString();
     if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
 
-    const data = await this.makeRequest("/tags", { params });
+    const fetchMembers = (endpoint: string) =>
+      args.all || args.maxItems
+        ? this.fetchAllPages(endpoint, params, args.maxItems)
+        : this.makeRequest(endpoint, { params });
+
+    const result: Record<string, unknown> = { listId };
+    if (type === "people" || type === "all") {
+      result.people = await fetchMembers("/people");
+    }
+    if (type === "organizations" || type === "all") {
+      result.organizations = await fetchMembers("/organizations");
+    }
+
+    return this.formatResponse(result, args);
+  }
+
+  private async setListMembership(tool: string, listId: string, args: any) {
+    const add = tool === "add_to_list";
+    // Concurrent updates of the same record would overwrite each other's
+    // segments, so each ID is handled once.
+    const unique = (ids: unknown[] = []) => [...new Set(ids.map(String))];
+    const members = [
+      ...unique(args.personIds).map((id) => ({ kind: "person", id })),
+      ...unique(args.organizationIds).map((id) => ({ kind: "organization", id })),
+    ];
+    if (members.length === 0) {
+      throw new Error("Pass at least one ID in personIds or organizationIds");
+    }
+
+    // Fails early with a clear error when the list does not exist.
+    await this.makeRequest(`/segments/${listId}`);
+
+    const results = await Promise.all(
+      members.map(async ({ kind, id }) => {
+        try {
+          const { changeId } = await this.mergeUpdate(tool, kind, id, {}, (current) => {
+            const listIds = getLinkedIds(current, "segments").filter(
+              (segmentId) => segmentId !== listId
+            );
+            return { segments: add ? [...listIds, listId] : listIds };
+          });
+          return { type: kind, id, status: add ? "added" : "removed", changeId };
+        } catch (error) {
+          return {
+            type: kind,
+            id,
+            status: "failed",
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      })
+    );
 
+    const failed = results.filter((result) => result.status === "failed").length;
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify(data, null, 2),
+          text: `${results.length - failed} of ${results.length} records ${
+            add ? "added to" : "removed from"
+          } list ${listId}:\n${JSON.stringify(results, null, 2)}`,
         },
       ],
     };
   }
 
-  private async getTag(id: string) {
+  private async getListsForPerson(id: string, args: any) {
+    const person = await this.makeRequest(`/people/${id}`);
+    const lists = await this.fetchLinkedRecords("/segments", getLinkedIds(person, "segments"));
+
+    return this.formatResponse(lists, args);
+  }
+
+  private async getTags(args: any) {
+    const params: Record<string, string> = {};
+    if (args.page) params.page = args.page.toString();
+    if (args.itemsPerPage) params.itemsPerPage = args.itemsPerPage.toString();
+
+    const data =
+      args.all || args.maxItems
+        ? await this.fetchAllPages("/tags", params, args.maxItems)
+        : await this.makeRequest("/tags", { params });
+
+    return this.formatResponse(data, args);
+  }
+
+  private async getTag(id: string, args: any) {
     const data = await this.makeRequest(`/tags/${id}`);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: JSON.stringify(data, null, 2),
-        },
-      ],
-    };
+    return this.formatResponse(data, args);
   }
 
   private async createTag(args: any) {
@@ -980,41 +4172,214 @@ class RogerRogerMCP {
 
   private async updateTag(id: string, args: any) {
     const { id: _, ...updateData } = args;
-    const data = await this.makeRequest(`/tags/${id}`, {
-      method: "PATCH",
-      body: updateData,
-    });
+    const { data, changeId } = await this.trackChange(
+      "update_tag",
+      "tag",
+      id,
+      "update",
+      () =>
+        this.makeRequest(`/tags/${id}`, {
+          method: "PATCH",
+          body: updateData,
+        })
+    );
 
     return {
       content: [
         {
           type: "text",
-          text: `Tag updated successfully: ${JSON.stringify(data, null, 2)}`,
+          text: `Tag updated successfully: ${JSON.stringify(data, null, 2)}${this.changeNote(
+            changeId
+          )}`,
         },
       ],
     };
   }
 
-  private async deleteTag(id: string) {
-    await this.makeRequest(`/tags/${id}`, {
-      method: "DELETE",
-    });
+  private async deleteTag(id: string, confirmationToken?: unknown) {
+    const preview = await this.previewDeletion(
+      "tag",
+      `/tags/${id}`,
+      confirmationToken,
+      DELETE_PREVIEW_FIELDS.tag
+    );
+    if (preview) {
+      return preview;
+    }
+
+    const { changeId } = await this.trackChange(
+      "delete_tag",
+      "tag",
+      id,
+      "delete",
+      () =>
+        this.makeRequest(`/tags/${id}`, {
+          method: "DELETE",
+        })
+    );
 
     return {
       content: [
         {
           type: "text",
-          text: `Tag with ID ${id} deleted successfully`,
+          text: `Tag with ID ${id} deleted successfully${this.changeNote(changeId)}`,
         },
       ],
     };
   }
 
+  /**
+   * `rogerroger-mcp export <type> [--format csv|ndjson|json] [--output file]
+   * [--columns a,b] [--max-items n] [--overwrite]`
+   */
+  async runExport(type: string | undefined): Promise<void> {
+    if (!type || !(type in EXPORT_ENDPOINTS)) {
+      throw new Error(
+        `Usage: rogerroger-mcp export <${Object.keys(EXPORT_ENDPOINTS).join("|")}> [--format ${EXPORT_FORMATS.join(
+          "|"
+        )}] [--output file] [--columns a,b] [--max-items n] [--overwrite] [--workspace name]`
+      );
+    }
+
+    const maxItems = getCliOption("max-items");
+    const args = {
+      type,
+      format: getCliOption("format"),
+      path: getCliOption("output"),
+      columns: getCliOption("columns")
+        ?.split(",")
+        .map((column) => column.trim())
+        .filter(Boolean),
+      maxItems: maxItems !== undefined ? Number(maxItems) : undefined,
+      overwrite: process.argv.includes("--overwrite"),
+      workspace: getCliOption("workspace")?.toLowerCase(),
+    };
+    const errors = validateSchema(args, TOOLS.find(({ name }) => name === "export")!.inputSchema);
+    if (errors.length > 0) {
+      throw new Error(`Invalid arguments for export: ${errors.join("; ")}`);
+    }
+
+    const { workspace, ...exportArgs } = args;
+    const result = await selectedWorkspace.run(workspace, () => this.exportRecords(exportArgs));
+    console.log(`Exported ${result.rows} ${type} to ${result.path}`);
+  }
+
   async run(): Promise<void> {
+    if (this.config.transport === "http") {
+      await this.runHttp();
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
+  }
+
+  private async runHttp(): Promise<void> {
+    const { port, host, authToken } = this.config.http;
+
+    if (!authToken) {
+      // Without a token every tool, including the ones that change data, is
+      // open to anyone who can reach the port.
+      if (!isLoopbackHost(host)) {
+        throw new Error(
+          `Refusing to listen on ${host} without ROGERROGER_HTTP_TOKEN. Set a token, or bind to 127.0.0.1`
+        );
+      }
+      console.error(
+        "[RogerRoger] ROGERROGER_HTTP_TOKEN is not set, incoming clients are not authenticated"
+      );
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error) => {
+        console.error("[RogerRoger] HTTP request failed", error);
+        if (!res.headersSent) {
+          res.writeHead(500).end("Internal server error");
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(port, host, resolve);
+    });
+    this.httpServer = httpServer;
+
+    // The actual port, in case port 0 asked for any free one.
+    const address = httpServer.address();
+    const boundPort = address && typeof address === "object" ? address.port : port;
+    console.error(`[RogerRoger] MCP server listening on http://${host}:${boundPort}/sse`);
+  }
+
+  private async handleHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (!this.isAuthorized(req)) {
+      res
+        .writeHead(401, { "WWW-Authenticate": "Bearer" })
+        .end("Unauthorized");
+      return;
+    }
+
+    if (req.method === "GET" && url.pathname === "/sse") {
+      // Every client gets its own server so sessions never share state.
+      const transport = new SSEServerTransport("/messages", res);
+      this.sessions.set(transport.sessionId, transport);
+      res.on("close", () => {
+        this.sessions.delete(transport.sessionId);
+      });
+      await this.createServer().connect(transport);
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/messages") {
+      const transport = this.sessions.get(url.searchParams.get("sessionId") ?? "");
+      if (!transport) {
+        res.writeHead(404).end("Unknown session");
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end("Not found");
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const { authToken } = this.config.http;
+    if (!authToken) {
+      return true;
+    }
+
+    const expected = Buffer.from(`Bearer ${authToken}`);
+    const actual = Buffer.from(req.headers.authorization ?? "");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
   }
 }
 
-const server = new RogerRogerMCP();
-server.run().catch(console.error);
+const exporting = process.argv[2] === "export";
+
+let config: RogerRogerConfig;
+try {
+  config = loadConfig(process.argv.slice(2), process.env, exporting ? EXPORT_CLI_OPTIONS : []);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+if (process.argv.includes("--print-config")) {
+  console.log(formatConfig(config));
+} else if (exporting) {
+  new RogerRogerMCP(config).runExport(process.argv[3]).catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+} else {
+  new RogerRogerMCP(config).run().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,837 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { MockRogerRogerApi } from "./mock-api.js";
+
+// Drives the built server (dist/index.js) through a real MCP client over
+// stdio, against the in-memory mock API. Run `npm run build` first; `npm
+// test` does so automatically.
+
+const SERVER_PATH = fileURLToPath(new URL("../../dist/index.js", import.meta.url));
+
+const execFileAsync = promisify(execFile);
+
+const api = new MockRogerRogerApi();
+// A second account, for the "other" workspace.
+const otherApi = new MockRogerRogerApi("other-key");
+const calledTools = new Set<string>();
+let client: Client;
+let home: string;
+
+interface ToolResult {
+  text: string;
+  isError: boolean;
+}
+
+async function call(name: string, args: Record<string, unknown> = {}): Promise<ToolResult> {
+  calledTools.add(name);
+  const result = await client.callTool({ name, arguments: args });
+  const content = result.content as { type: string; text: string }[];
+  return { text: content[0].text, isError: result.isError === true };
+}
+
+/** The JSON document in a tool response, ignoring the text around it. */
+function parseJson(text: string): any {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+function confirmationToken(text: string): string {
+  const match = text.match(/confirmationToken "([^"]+)"/);
+  if (!match) {
+    throw new Error(`No confirmation token in: ${text}`);
+  }
+  return match[1];
+}
+
+function changeId(text: string): string {
+  const match = text.match(/Change ID: (\w+)/);
+  if (!match) {
+    throw new Error(`No change ID in: ${text}`);
+  }
+  return match[1];
+}
+
+/** Run the server's command line and collect its output. */
+async function runCli(args: string[], env: Record<string, string>) {
+  try {
+    const { stdout, stderr } = await execFileAsync(process.execPath, [SERVER_PATH, ...args], {
+      cwd: home,
+      env: { ...getDefaultEnvironment(), HOME: home, ...env },
+    });
+    return { code: 0, stdout, stderr };
+  } catch (error) {
+    const { code, stdout, stderr } = error as { code: number; stdout: string; stderr: string };
+    return { code, stdout, stderr };
+  }
+}
+
+function seedPeople(count: number) {
+  return api.seed(
+    "people",
+    Array.from({ length: count }, (_, index) => ({
+      name: `Person ${index + 1}`,
+      email: `person${index + 1}@example.com`,
+    }))
+  );
+}
+
+let serverEnv: Record<string, string>;
+
+/** Start a server process and connect an MCP client to it. */
+async function connect(env: Record<string, string> = {}): Promise<Client> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_PATH],
+    env: { ...serverEnv, ...env },
+  });
+  const connected = new Client({ name: "e2e", version: "1.0.0" }, { capabilities: {} });
+  await connected.connect(transport);
+  return connected;
+}
+
+beforeAll(async () => {
+  if (!existsSync(SERVER_PATH)) {
+    throw new Error(`${SERVER_PATH} not found; run npm run build first`);
+  }
+
+  const baseUrl = await api.start();
+  const otherBaseUrl = await otherApi.start();
+  home = await mkdtemp(join(tmpdir(), "rogerroger-e2e-"));
+
+  serverEnv = {
+    ...getDefaultEnvironment(),
+    HOME: home,
+    ROGERROGER_API_KEY: api.apiKey,
+    ROGERROGER_BASE_URL: baseUrl,
+    ROGERROGER_WORKSPACE_OTHER_API_KEY: otherApi.apiKey,
+    ROGERROGER_WORKSPACE_OTHER_BASE_URL: otherBaseUrl,
+    ROGERROGER_WORKSPACE_ARCHIVE_API_KEY: api.apiKey,
+    ROGERROGER_WORKSPACE_ARCHIVE_READ_ONLY: "true",
+    ROGERROGER_RATE_LIMIT: "0",
+    ROGERROGER_MAX_CONCURRENCY: "0",
+    ROGERROGER_RETRY_MAX_DELAY_MS: "10",
+    ROGERROGER_AUDIT_LOG: join(home, "audit.jsonl"),
+    ROGERROGER_CHANGE_HISTORY: "memory",
+  };
+  client = await connect();
+});
+
+afterAll(async () => {
+  await client?.close();
+  await api.stop();
+  await otherApi.stop();
+  if (home) {
+    await rm(home, { recursive: true, force: true });
+  }
+});
+
+beforeEach(() => {
+  api.reset();
+  otherApi.reset();
+});
+
+describe("people", () => {
+  test("get_people pages through results and searches", async () => {
+    seedPeople(45);
+
+    const page = parseJson((await call("get_people", { page: 2, itemsPerPage: 10 })).text);
+    expect(page["hydra:member"]).toHaveLength(10);
+    expect(page["hydra:member"][0].name).toBe("Person 11");
+    expect(page["hydra:totalItems"]).toBe(45);
+
+    const all = parseJson((await call("get_people", { all: true })).text);
+    expect(all.count).toBe(45);
+    expect(all.truncated).toBe(false);
+
+    const search = parseJson((await call("get_people", { q: "person7@" })).text);
+    expect(search["hydra:member"].map((person: any) => person.name)).toEqual(["Person 7"]);
+  });
+
+  test("maxItems reports truncation only when records were left out", async () => {
+    seedPeople(30);
+    api.plainCollections = true;
+
+    const exact = parseJson((await call("get_people", { maxItems: 30 })).text);
+    expect(exact).toMatchObject({ count: 30, totalItems: 30, truncated: false });
+
+    const short = parseJson((await call("get_people", { maxItems: 29 })).text);
+    expect(short).toMatchObject({ count: 29, truncated: true });
+  });
+
+  test("create_person, get_person and a partial update_person", async () => {
+    const created = parseJson(
+      (await call("create_person", { name: "Jane Smith", email: "jane@example.com", phone: "123" }))
+        .text
+    );
+    expect(api.get("people", created.id)?.name).toBe("Jane Smith");
+
+    const person = parseJson((await call("get_person", { id: created.id })).text);
+    expect(person.email).toBe("jane@example.com");
+
+    const updated = await call("update_person", { id: created.id, notes: "Met at the fair" });
+    expect(updated.isError).toBe(false);
+    expect(updated.text).toContain("Change ID:");
+    expect(api.get("people", created.id)).toMatchObject({
+      phone: "123",
+      notes: "Met at the fair",
+    });
+  });
+
+  test("update_person refuses to overwrite a newer version", async () => {
+    const [person] = seedPeople(1);
+
+    const result = await call("update_person", {
+      id: person.id,
+      name: "Renamed",
+      expectedUpdatedAt: "2000-01-01T00:00:00Z",
+    });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("was modified");
+    expect(api.get("people", String(person.id))?.name).toBe("Person 1");
+  });
+
+  test("delete_person asks for confirmation first", async () => {
+    const [person] = seedPeople(1);
+
+    const preview = await call("delete_person", { id: person.id });
+    expect(preview.text).toContain("Person 1");
+    expect(api.get("people", String(person.id))).toBeDefined();
+
+    const deleted = await call("delete_person", {
+      id: person.id,
+      confirmationToken: confirmationToken(preview.text),
+    });
+    expect(deleted.text).toContain("deleted successfully");
+    expect(api.get("people", String(person.id))).toBeUndefined();
+  });
+
+  test("validation errors name the field", async () => {
+    const result = await call("create_person", { name: "Bad", email: "not-an-email" });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Category: validation");
+    expect(result.text).toContain("- email: This value is not a valid email address.");
+  });
+
+  test("invalid arguments are rejected before reaching the API", async () => {
+    const result = await call("get_people", { itemsPerPage: "many" });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("itemsPerPage must be an integer");
+    expect(api.requests).toHaveLength(0);
+  });
+
+  test("page and count arguments must be whole numbers", async () => {
+    const result = await call("get_people", { page: 1.5, itemsPerPage: 2.5 });
+    expect(result.text).toContain("page must be an integer, got number");
+    expect(result.text).toContain("itemsPerPage must be an integer, got number");
+    expect(api.requests).toHaveLength(0);
+  });
+
+  test("IDs may be numbers", async () => {
+    const [person] = seedPeople(1);
+    const found = await call("get_person", { id: Number(person.id) });
+    expect(parseJson(found.text).name).toBe("Person 1");
+
+    const invalid = await call("get_person", { id: true });
+    expect(invalid.text).toContain("id must be a string or a number, got boolean");
+  });
+});
+
+describe("organizations", () => {
+  test("create, read, update and delete", async () => {
+    const created = parseJson(
+      (await call("create_organization", { name: "Acme", industry: "Retail" })).text
+    );
+
+    const list = parseJson((await call("get_organizations", {})).text);
+    expect(list["hydra:totalItems"]).toBe(1);
+
+    await call("update_organization", { id: created.id, employees: 50 });
+    expect(api.get("organizations", created.id)).toMatchObject({
+      industry: "Retail",
+      employees: 50,
+    });
+
+    const preview = await call("delete_organization", { id: created.id });
+    await call("delete_organization", {
+      id: created.id,
+      confirmationToken: confirmationToken(preview.text),
+    });
+    expect(api.list("organizations")).toHaveLength(0);
+  });
+
+  test("link and unlink people", async () => {
+    const [organization] = api.seed("organizations", [{ name: "Acme" }]);
+    const [jane, max] = seedPeople(2);
+
+    await call("link_person_to_organization", {
+      personId: jane.id,
+      organizationId: organization.id,
+    });
+    await call("link_person_to_organization", {
+      personId: max.id,
+      organizationId: organization.id,
+    });
+
+    const people = parseJson(
+      (await call("get_organization_people", { organizationId: organization.id })).text
+    );
+    expect(people["hydra:totalItems"]).toBe(2);
+
+    const withPeople = parseJson(
+      (await call("get_organization", { id: organization.id, include: ["people"] })).text
+    );
+    expect(withPeople.organization.name).toBe("Acme");
+    expect(withPeople.people.count).toBe(2);
+
+    await call("unlink_person_from_organization", {
+      personId: max.id,
+      organizationId: organization.id,
+    });
+    expect(api.get("people", String(max.id))?.organizations).toEqual([]);
+  });
+});
+
+describe("tasks", () => {
+  test("create, filter, complete, reopen and delete", async () => {
+    const [person] = seedPeople(1);
+    const task = parseJson(
+      (
+        await call("create_task", {
+          title: "Send proposal",
+          due_date: "2020-01-15",
+          person_id: person.id,
+          priority: "high",
+        })
+      ).text
+    );
+    api.seed("tasks", [{ title: "Later", status: "open", due_date: "2999-01-01" }]);
+
+    const overdue = parseJson((await call("get_tasks", { overdue: true })).text);
+    expect(overdue["hydra:member"]).toEqual([]);
+
+    await call("update_task", { id: task.id, status: "open" });
+    const overdueNow = parseJson((await call("get_tasks", { overdue: true })).text);
+    expect(overdueNow["hydra:member"].map((item: any) => item.title)).toEqual(["Send proposal"]);
+
+    const forPerson = parseJson((await call("get_tasks", { person_id: person.id })).text);
+    expect(forPerson["hydra:totalItems"]).toBe(1);
+
+    await call("complete_task", { id: task.id });
+    expect(api.get("tasks", task.id)?.status).toBe("completed");
+
+    await call("reopen_task", { id: task.id, due_date: "2030-06-01" });
+    const reopened = parseJson((await call("get_task", { id: task.id })).text);
+    expect(reopened).toMatchObject({ status: "open", due_date: "2030-06-01", priority: "high" });
+
+    const preview = await call("delete_task", { id: task.id });
+    await call("delete_task", { id: task.id, confirmationToken: confirmationToken(preview.text) });
+    expect(api.get("tasks", task.id)).toBeUndefined();
+  });
+});
+
+describe("lists", () => {
+  test("manage lists and their members", async () => {
+    const list = parseJson((await call("create_list", { title: "Newsletter", icon: "mail" })).text);
+    const [jane] = seedPeople(1);
+    const [acme] = api.seed("organizations", [{ name: "Acme" }]);
+
+    await call("update_list", { id: list.id, title: "Monthly newsletter", icon: "mail" });
+    expect(parseJson((await call("get_list", { id: list.id })).text).title).toBe(
+      "Monthly newsletter"
+    );
+    expect(parseJson((await call("get_lists", {})).text)["hydra:totalItems"]).toBe(1);
+
+    const added = parseJson(
+      (
+        await call("add_to_list", {
+          listId: list.id,
+          personIds: [jane.id, "999", String(jane.id)],
+          organizationIds: [acme.id],
+        })
+      ).text
+    );
+    expect(added.map((result: any) => result.status)).toEqual(["added", "failed", "added"]);
+
+    const members = parseJson((await call("get_list_members", { listId: list.id })).text);
+    expect(members.people["hydra:totalItems"]).toBe(1);
+    expect(members.organizations["hydra:totalItems"]).toBe(1);
+
+    const lists = parseJson((await call("get_lists_for_person", { id: jane.id })).text);
+    expect(lists.map((item: any) => item.title)).toEqual(["Monthly newsletter"]);
+
+    await call("remove_from_list", { listId: list.id, personIds: [jane.id] });
+    expect(api.get("people", String(jane.id))?.segments).toEqual([]);
+
+    const preview = await call("delete_list", { id: list.id });
+    await call("delete_list", { id: list.id, confirmationToken: confirmationToken(preview.text) });
+    expect(api.list("segments")).toHaveLength(0);
+  });
+});
+
+describe("tags", () => {
+  test("manage tags and tag records", async () => {
+    const tag = parseJson((await call("create_tag", { title: "VIP" })).text);
+    const [jane] = seedPeople(1);
+    const [acme] = api.seed("organizations", [{ name: "Acme" }]);
+
+    await call("update_tag", { id: tag.id, title: "VIP", backgroundColor: "#ff0000" });
+    expect(parseJson((await call("get_tag", { id: tag.id })).text).backgroundColor).toBe(
+      "#ff0000"
+    );
+    expect(parseJson((await call("get_tags", {})).text)["hydra:totalItems"]).toBe(1);
+
+    await call("tag_person", { id: jane.id, tagTitle: "vip" });
+    const created = await call("tag_organization", {
+      id: acme.id,
+      tagTitle: "Partner",
+      createIfMissing: true,
+    });
+    expect(created.text).toContain("newly created");
+
+    const records = parseJson((await call("get_records_by_tag", { tagId: tag.id })).text);
+    expect(records.people.count).toBe(1);
+    expect(records.organizations.count).toBe(0);
+
+    await call("untag_person", { id: jane.id, tagId: tag.id });
+    await call("untag_organization", { id: acme.id, tagTitle: "Partner" });
+    expect(api.get("people", String(jane.id))?.tags).toEqual([]);
+    expect(api.get("organizations", String(acme.id))?.tags).toEqual([]);
+
+    const preview = await call("delete_tag", { id: tag.id });
+    await call("delete_tag", { id: tag.id, confirmationToken: confirmationToken(preview.text) });
+    expect(api.get("tags", tag.id)).toBeUndefined();
+  });
+});
+
+describe("bulk operations", () => {
+  test("report a result for every item", async () => {
+    const created = await call("bulk_create_people", {
+      people: [{ name: "Ann", email: "ann@example.com" }, { name: "Bad", email: "bad" }],
+    });
+    expect(created.text).toContain("1 of 2 created");
+    expect(parseJson(created.text).map((result: any) => result.status)).toEqual([
+      "created",
+      "failed",
+    ]);
+
+    const [ann] = api.list("people");
+    const updated = await call("bulk_update_people", {
+      updates: [{ id: ann.id, phone: "555" }, { id: "999", phone: "1" }],
+    });
+    expect(updated.text).toContain("1 of 2 updated");
+    expect(api.get("people", String(ann.id))?.phone).toBe("555");
+
+    const duplicate = await call("bulk_update_people", {
+      updates: [{ id: ann.id, phone: "1" }, { id: String(ann.id), email: "ann@example.com" }],
+    });
+    expect(duplicate.isError).toBe(true);
+    expect(duplicate.text).toContain(`combine the updates for: ${ann.id}`);
+    expect(api.get("people", String(ann.id))?.phone).toBe("555");
+
+    await call("bulk_create_organizations", { organizations: [{ name: "A" }, { name: "B" }] });
+    const ids = api.list("organizations").map(({ id }) => id);
+
+    const missing = await call("bulk_delete", { type: "organizations", ids: [...ids, "999"] });
+    expect(missing.isError).toBe(true);
+    expect(missing.text).toContain("with these IDs: 999");
+    expect(missing.text).not.toContain("confirmationToken \"");
+
+    const preview = await call("bulk_delete", { type: "organizations", ids });
+    expect(preview.text).toContain('"name": "A"');
+    expect(preview.text).toContain('"name": "B"');
+    expect(api.list("organizations")).toHaveLength(2);
+    const deleted = await call("bulk_delete", {
+      type: "organizations",
+      ids,
+      confirmationToken: confirmationToken(preview.text),
+    });
+    expect(deleted.text).toContain("2 of 2 deleted");
+    expect(api.list("organizations")).toHaveLength(0);
+  });
+});
+
+describe("import and export", () => {
+  test("import_csv validates in a dry run, then imports", async () => {
+    api.seed("people", [{ name: "Existing", email: "taken@example.com" }]);
+    const csv = [
+      "First Name,Last Name,E-Mail",
+      "Ann,Lee,ann@example.com",
+      "Bo,,not-an-email",
+      "Cy,Doe,TAKEN@example.com",
+    ].join("\n");
+
+    const dryRun = await call("import_csv", { type: "people", csv });
+    const report = parseJson(dryRun.text);
+    expect(report.invalid.map(({ row }: any) => row)).toEqual([3]);
+    expect(report.duplicates.map(({ row }: any) => row)).toEqual([4]);
+    expect(api.list("people")).toHaveLength(1);
+
+    const imported = await call("import_csv", { type: "people", csv, dryRun: false });
+    expect(imported.text).toContain("Imported 1 of 3 rows");
+    expect(api.list("people").map(({ name }) => name)).toEqual(["Existing", "Ann Lee"]);
+  });
+
+  test("export writes every page to a file", async () => {
+    seedPeople(35);
+    const path = join(home, "people.csv");
+
+    const result = parseJson(
+      (await call("export", { type: "people", path, columns: ["name", "email"] })).text
+    );
+    expect(result).toMatchObject({ path, rows: 35, columns: ["name", "email"] });
+
+    const lines = (await readFile(path, "utf8")).trim().split("\r\n");
+    expect(lines).toHaveLength(36);
+    expect(lines[1]).toBe("Person 1,person1@example.com");
+  });
+
+  test("export keeps spreadsheet formulas from running", async () => {
+    api.seed("people", [
+      {
+        name: '=HYPERLINK("http://evil.example","Click")',
+        phone: "+49 30 1234567",
+        notes: "-12.5",
+      },
+      { name: "@SUM(A1)", phone: "+1 (555) 123-4567", notes: "+cmd|' /C calc'!A0" },
+    ]);
+    const path = join(home, "formulas.csv");
+
+    await call("export", { type: "people", path, columns: ["name", "phone", "notes"] });
+    const lines = (await readFile(path, "utf8")).trim().split("\r\n");
+    expect(lines[1]).toBe(
+      `"'=HYPERLINK(""http://evil.example"",""Click"")",+49 30 1234567,-12.5`
+    );
+    expect(lines[2]).toBe(`'@SUM(A1),+1 (555) 123-4567,'+cmd|' /C calc'!A0`);
+  });
+});
+
+describe("duplicates", () => {
+  test("find_duplicate_people and merge_people", async () => {
+    const [jane, copy] = api.seed("people", [
+      { name: "Jane Smith", email: "jane@example.com" },
+      { name: "Smith, Jane", email: "JANE@example.com", phone: "+49 30 1234567" },
+      { name: "Somebody Else", email: "else@example.com" },
+    ]);
+    api.seed("tasks", [{ title: "Call Jane", person_id: copy.id }]);
+
+    const found = parseJson((await call("find_duplicate_people", {})).text);
+    expect(found.groups).toHaveLength(1);
+    expect(found.groups[0].people.map(({ id }: any) => id).sort()).toEqual(
+      [jane.id, copy.id].sort()
+    );
+
+    const args = { primaryId: jane.id, duplicateIds: [copy.id] };
+    const dryRun = await call("merge_people", args);
+    expect(parseJson(dryRun.text).changes.phone.to).toBe("+49 30 1234567");
+    expect(api.get("people", String(copy.id))).toBeDefined();
+
+    await call("merge_people", {
+      ...args,
+      dryRun: false,
+      confirmationToken: confirmationToken(dryRun.text),
+    });
+    expect(api.get("people", String(jane.id))?.phone).toBe("+49 30 1234567");
+    expect(api.get("people", String(copy.id))).toBeUndefined();
+    expect(api.list("tasks")[0].person_id).toBe(jane.id);
+  });
+
+  test("merge_people keeps a different short phone number", async () => {
+    const [primary, duplicate] = api.seed("people", [
+      { name: "Ann Lee", phone: "123" },
+      { name: "Ann Lee", phone: "456" },
+    ]);
+
+    const dryRun = await call("merge_people", {
+      primaryId: primary.id,
+      duplicateIds: [duplicate.id],
+    });
+    expect(parseJson(dryRun.text).conflicts).toEqual([
+      { field: "phone", kept: "123", dropped: [{ id: String(duplicate.id), value: "456" }] },
+    ]);
+    expect(parseJson(dryRun.text).changes.notes.to).toContain("phone: 456");
+  });
+});
+
+describe("audit log and undo", () => {
+  test("changes are logged and can be undone", async () => {
+    const [person] = seedPeople(1);
+    const updated = await call("update_person", { id: person.id, name: "Renamed" });
+
+    const log = parseJson((await call("get_audit_log", { tool: "update_person" })).text);
+    expect(log[0]).toMatchObject({ tool: "update_person", targetId: person.id, success: true });
+
+    const changes = parseJson((await call("list_recent_changes", {})).text);
+    expect(changes[0].id).toBe(changeId(updated.text));
+
+    await call("undo_change", { changeId: changeId(updated.text) });
+    expect(api.get("people", String(person.id))?.name).toBe("Person 1");
+  });
+
+  test("changes from the first call after a restart can all be undone", async () => {
+    const path = join(home, "changes.json");
+    await writeFile(path, "[]");
+    const [list] = api.seed("segments", [{ title: "Newsletter" }]);
+    const people = seedPeople(3);
+
+    const main = client;
+    client = await connect({ ROGERROGER_CHANGE_HISTORY: path });
+    try {
+      const added = parseJson(
+        (
+          await call("add_to_list", {
+            listId: list.id,
+            personIds: people.map(({ id }) => id),
+          })
+        ).text
+      );
+      for (const { changeId } of added) {
+        const undone = await call("undo_change", { changeId });
+        expect(undone.isError).toBe(false);
+      }
+      expect(api.get("people", String(people[0].id))?.segments ?? []).toEqual([]);
+      expect(JSON.parse(await readFile(path, "utf8"))).toHaveLength(3);
+    } finally {
+      await client.close();
+      client = main;
+    }
+  });
+
+  test("every write request of a call is logged", async () => {
+    const [ann, bo] = seedPeople(2);
+    await call("bulk_update_people", {
+      updates: [{ id: ann.id, phone: "1" }, { id: bo.id, phone: "2" }],
+    });
+
+    const [entry] = parseJson((await call("get_audit_log", { tool: "bulk_update_people" })).text);
+    expect(entry.requests.map(({ endpoint }: any) => endpoint).sort()).toEqual(
+      [`/people/${ann.id}`, `/people/${bo.id}`].sort()
+    );
+    expect(entry.requests[0]).toMatchObject({ method: "PUT", status: 200 });
+  });
+
+  test("writes that fail without a response are logged", async () => {
+    api.failNext({ status: 0, method: "POST", path: "/people" });
+    const created = await call("create_person", { name: "Lost" });
+    expect(created.isError).toBe(true);
+
+    const [entry] = parseJson((await call("get_audit_log", { tool: "create_person" })).text);
+    expect(entry).toMatchObject({ success: false, httpStatus: 0 });
+    expect(entry.requests).toEqual([
+      expect.objectContaining({ method: "POST", endpoint: "/people", status: 0 }),
+    ]);
+  });
+});
+
+describe("responses", () => {
+  test("fields and format shape the output", async () => {
+    seedPeople(2);
+
+    const table = await call("get_people", { fields: ["name"], format: "markdown_table" });
+    expect(table.text).toContain("| id | name |");
+    expect(table.text).toContain("| 1 | Person 1 |");
+    expect(table.text).not.toContain("email");
+
+    const compact = await call("get_people", { format: "compact" });
+    expect(compact.text).not.toContain("\n");
+    expect(compact.text).not.toContain("@id");
+  });
+});
+
+describe("failures", () => {
+  test("rate-limited requests are retried", async () => {
+    seedPeople(1);
+    api.failNext({ status: 429, times: 2, retryAfter: 0, path: "/people" });
+
+    const result = await call("get_people", {});
+    expect(result.isError).toBe(false);
+    expect(api.requests.map(({ status }) => status)).toEqual([429, 429, 200]);
+  });
+
+  test("a Retry-After longer than the maximum delay is returned, not retried", async () => {
+    api.failNext({ status: 429, retryAfter: 90, path: "/people" });
+
+    const result = await call("get_people", {});
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("asked to wait 90 seconds");
+    expect(api.requests).toHaveLength(1);
+  });
+
+  test("server errors on creates are not retried", async () => {
+    api.failNext({ status: 500, method: "POST" });
+
+    const result = await call("create_person", { name: "Jane" });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Category: server_error");
+    expect(api.requests).toHaveLength(1);
+    expect(api.list("people")).toHaveLength(0);
+  });
+
+  test("missing records are reported as not found", async () => {
+    const result = await call("get_person", { id: "404" });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain("Category: not_found");
+  });
+});
+
+describe("workspaces", () => {
+  test("list_workspaces shows the profiles without their keys", async () => {
+    const result = await call("list_workspaces");
+    expect(parseJson(result.text)).toEqual([
+      { name: "archive", baseUrl: expect.any(String), readOnly: true, default: false },
+      { name: "default", baseUrl: expect.any(String), readOnly: false, default: true },
+      { name: "other", baseUrl: expect.any(String), readOnly: false, default: false },
+    ]);
+    expect(result.text).not.toContain("key");
+  });
+
+  test("tools run against the selected workspace", async () => {
+    seedPeople(1);
+    otherApi.seed("people", [{ name: "Other Person" }]);
+
+    const other = parseJson((await call("get_people", { workspace: "other" })).text);
+    expect(other["hydra:member"].map(({ name }: any) => name)).toEqual(["Other Person"]);
+
+    const created = await call("create_person", { name: "New", workspace: "Other" });
+    expect(created.isError).toBe(false);
+    expect(otherApi.list("people")).toHaveLength(2);
+    expect(api.list("people")).toHaveLength(1);
+
+    const log = parseJson((await call("get_audit_log", { workspace: "other" })).text);
+    expect(log.map(({ tool }: any) => tool)).toEqual(["create_person"]);
+  });
+
+  test("confirmations and undo stay in their workspace", async () => {
+    const [person] = otherApi.seed("people", [{ name: "Other Person" }]);
+    const [sameId] = seedPeople(1);
+    expect(sameId.id).toBe(person.id);
+
+    const preview = await call("delete_person", { id: person.id, workspace: "other" });
+    const wrongWorkspace = await call("delete_person", {
+      id: person.id,
+      confirmationToken: confirmationToken(preview.text),
+    });
+    expect(wrongWorkspace.text).not.toContain("deleted successfully");
+    expect(api.get("people", String(person.id))).toBeDefined();
+
+    const updated = await call("update_person", {
+      id: person.id,
+      name: "Renamed",
+      workspace: "other",
+    });
+    const undone = await call("undo_change", { changeId: changeId(updated.text) });
+    expect(undone.isError).toBe(false);
+    expect(otherApi.get("people", String(person.id))?.name).toBe("Other Person");
+  });
+
+  test("read-only and unknown workspaces are rejected", async () => {
+    const readOnly = await call("create_person", { name: "New", workspace: "archive" });
+    expect(readOnly.isError).toBe(true);
+    expect(readOnly.text).toContain("Workspace archive is read-only");
+
+    const unknown = await call("get_people", { workspace: "nope" });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.text).toContain('Unknown workspace "nope"');
+    expect(api.requests).toHaveLength(0);
+  });
+});
+
+describe("resources and prompts", () => {
+  test("records can be read as resources", async () => {
+    const [person] = seedPeople(1);
+
+    const { resources } = await client.listResources();
+    expect(resources.map(({ uri }) => uri)).toContain(`rogerroger://people/${person.id}`);
+
+    const { contents } = await client.readResource({ uri: `rogerroger://people/${person.id}` });
+    expect(JSON.parse(String(contents[0].text)).name).toBe("Person 1");
+  });
+
+  test("prompts are filled in with CRM data", async () => {
+    const [person] = seedPeople(1);
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(({ name }) => name)).toContain("meeting_brief");
+
+    const { messages } = await client.getPrompt({
+      name: "meeting_brief",
+      arguments: { personId: String(person.id) },
+    });
+    expect(JSON.stringify(messages)).toContain("Person 1");
+  });
+
+  test("weekly_task_triage only includes open tasks by default", async () => {
+    api.seed("tasks", [
+      { title: "Still to do", status: "open" },
+      { title: "Already done", status: "completed" },
+    ]);
+
+    const { messages } = await client.getPrompt({ name: "weekly_task_triage", arguments: {} });
+    expect(JSON.stringify(messages)).toContain("Still to do");
+    expect(JSON.stringify(messages)).not.toContain("Already done");
+  });
+});
+
+describe("configuration", () => {
+  test("--print-config layers the config file, environment and flags", async () => {
+    const path = join(home, "config.json");
+    await writeFile(join(home, "acme.key"), "acme-key-from-a-file\n");
+    await writeFile(
+      path,
+      JSON.stringify({
+        apiKey: "plaintext-key-in-file",
+        rateLimit: 2,
+        maxRetries: 1,
+        toolsDeny: ["delete_*"],
+        workspaces: { acme: { apiKeyFile: "acme.key", readOnly: true } },
+      })
+    );
+
+    const { code, stdout } = await runCli(["--config", path, "--print-config", "--rate-limit=8"], {
+      ROGERROGER_MAX_RETRIES: "5",
+    });
+    expect(code).toBe(0);
+    expect(stdout).not.toContain("plaintext-key-in-file");
+    expect(stdout).not.toContain("acme-key-from-a-file");
+
+    const config = JSON.parse(stdout);
+    expect(config).toMatchObject({
+      rateLimitPerSecond: 8,
+      retry: { maxRetries: 5 },
+      toolsDeny: ["delete_*"],
+      workspaces: [
+        { name: "acme", apiKey: "****file", readOnly: true },
+        { name: "default", apiKey: "****file", readOnly: false },
+      ],
+    });
+  });
+
+  test("invalid settings stop the server with every problem listed", async () => {
+    const { code, stderr } = await runCli(["--print-config"], {
+      ROGERROGER_API_KEY: api.apiKey,
+      ROGERROGER_RATE_LIMIT: "fast",
+      ROGERROGER_DEFAULT_WORKSPACE: "acme",
+      ROGERROGER_WORKSPACE_OTHER_API_KEY: "other-key",
+      ROGERROGER_WORKSPACE_OTHER_BASE_URL: "api.example.com",
+    });
+    expect(code).toBe(1);
+    expect(stderr).toContain("ROGERROGER_RATE_LIMIT must be a number >= 0");
+    expect(stderr).toContain("ROGERROGER_WORKSPACE_OTHER_BASE_URL must be an http(s) URL");
+    expect(stderr).toContain('The default workspace "acme" is not configured');
+  });
+});
+
+test("every tool is covered by this suite", async () => {
+  const { tools } = await client.listTools();
+  expect(tools.map(({ name }) => name).filter((name) => !calledTools.has(name))).toEqual([]);
+});
@@ -0,0 +1,170 @@
+import { getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ChildProcess, spawn } from "node:child_process";
+import { once } from "node:events";
+import { fileURLToPath } from "node:url";
+
+// Drives the built server (dist/index.js) over the HTTP transport with plain
+// HTTP requests: the SDK's SSE client cannot send an Authorization header.
+
+const SERVER_PATH = fileURLToPath(new URL("../../dist/index.js", import.meta.url));
+
+const TOKEN = "e2e-http-token";
+
+let server: ChildProcess;
+let baseUrl: string;
+
+function startServer(args: string[], env: Record<string, string> = {}): ChildProcess {
+  return spawn(process.execPath, [SERVER_PATH, "--transport", "http", ...args], {
+    env: {
+      ...getDefaultEnvironment(),
+      ROGERROGER_API_KEY: "test-key",
+      ROGERROGER_AUDIT_LOG: "off",
+      ROGERROGER_CHANGE_HISTORY: "memory",
+      ...env,
+    },
+    stdio: ["ignore", "ignore", "pipe"],
+  });
+}
+
+/** Collect the server's stderr until it matches the pattern or exits. */
+function waitForOutput(child: ChildProcess, pattern: RegExp): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = "";
+    child.stderr!.on("data", (chunk) => {
+      output += chunk;
+      if (pattern.test(output)) {
+        resolve(output);
+      }
+    });
+    child.once("exit", () =>
+      pattern.test(output) ? resolve(output) : reject(new Error(`Server exited:\n${output}`))
+    );
+  });
+}
+
+/**
+ * Reads Server-Sent Events from a response body, one `event`/`data` pair at
+ * a time.
+ */
+class EventReader {
+  private buffer = "";
+  private decoder = new TextDecoder();
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+
+  constructor(response: Response) {
+    this.reader = response.body!.getReader();
+  }
+
+  async next(): Promise<{ event: string; data: string }> {
+    for (;;) {
+      const end = this.buffer.indexOf("\n\n");
+      if (end !== -1) {
+        const block = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        const field = (name: string) =>
+          block.match(new RegExp(`^${name}: ?(.*)$`, "m"))?.[1] ?? "";
+        return { event: field("event") || "message", data: field("data") };
+      }
+
+      const { value, done } = await this.reader.read();
+      if (done) {
+        throw new Error("Event stream ended");
+      }
+      this.buffer += this.decoder.decode(value, { stream: true });
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.reader.cancel();
+  }
+}
+
+const authorization = { Authorization: `Bearer ${TOKEN}` };
+
+beforeAll(async () => {
+  server = startServer(["--port", "0"], { ROGERROGER_HTTP_TOKEN: TOKEN });
+  const output = await waitForOutput(server, /listening on (http:\/\/\S+)\/sse/);
+  baseUrl = output.match(/listening on (http:\/\/\S+)\/sse/)![1];
+});
+
+afterAll(async () => {
+  if (server.exitCode === null) {
+    server.kill("SIGINT");
+    await once(server, "exit");
+  }
+});
+
+describe("authentication", () => {
+  test("requests without the token are rejected", async () => {
+    const response = await fetch(`${baseUrl}/sse`);
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toBe("Bearer");
+  });
+
+  test("requests with a wrong token are rejected", async () => {
+    const response = await fetch(`${baseUrl}/sse`, {
+      headers: { Authorization: "Bearer wrong-token" },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  test("the server refuses to listen on the network without a token", async () => {
+    const child = startServer(["--host", "0.0.0.0", "--port", "0"]);
+    const output = await waitForOutput(child, /Refusing to listen/);
+    const [code] = child.exitCode !== null ? [child.exitCode] : await once(child, "exit");
+    expect(code).toBe(1);
+    expect(output).toContain("without ROGERROGER_HTTP_TOKEN");
+  });
+});
+
+describe("sessions", () => {
+  test("a client with the token gets a working MCP session", async () => {
+    const stream = await fetch(`${baseUrl}/sse`, { headers: authorization });
+    expect(stream.status).toBe(200);
+    const events = new EventReader(stream);
+
+    const endpoint = await events.next();
+    expect(endpoint.event).toBe("endpoint");
+    expect(endpoint.data).toMatch(/^\/messages\?sessionId=/);
+
+    const post = (message: object) =>
+      fetch(`${baseUrl}${endpoint.data}`, {
+        method: "POST",
+        headers: { ...authorization, "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", ...message }),
+      });
+
+    const initialize = await post({
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2024-11-05",
+        capabilities: {},
+        clientInfo: { name: "e2e", version: "1.0.0" },
+      },
+    });
+    expect(initialize.status).toBe(202);
+    expect(JSON.parse((await events.next()).data)).toMatchObject({
+      id: 1,
+      result: { serverInfo: { name: "rogerroger-mcp" } },
+    });
+
+    await post({ method: "notifications/initialized" });
+    await post({ id: 2, method: "tools/list" });
+    const tools = JSON.parse((await events.next()).data);
+    expect(tools.id).toBe(2);
+    expect(tools.result.tools.map(({ name }: any) => name)).toContain("get_people");
+
+    await events.close();
+  });
+
+  test("messages for an unknown session are rejected", async () => {
+    const response = await fetch(`${baseUrl}/messages?sessionId=unknown`, {
+      method: "POST",
+      headers: { ...authorization, "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe("Unknown session");
+  });
+});
@@ -0,0 +1,502 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+
+/**
+ * An in-memory stand-in for the RogerRoger API, for tests and for trying the
+ * server without an API key. It serves the collections the server uses as
+ * Hydra JSON-LD, with pagination, `q` search, field filters, validation
+ * errors, ETags and injectable failures.
+ *
+ * Run it on its own with `node dist/testing/mock-api.js` (port 4010, or
+ * ROGERROGER_MOCK_PORT) and point ROGERROGER_BASE_URL at it.
+ */
+
+export const MOCK_COLLECTIONS = ["people", "organizations", "tasks", "segments", "tags"] as const;
+
+export type MockCollection = (typeof MOCK_COLLECTIONS)[number];
+
+export type MockRecord = Record<string, unknown>;
+
+export interface MockFailure {
+  /** HTTP status to answer with; 0 drops the connection without answering. */
+  status: number;
+  /** Number of matching requests to fail (default: 1). */
+  times?: number;
+  method?: string;
+  /** Only fail requests whose path starts with this, e.g. `/people`. */
+  path?: string;
+  /** Seconds sent in a Retry-After header. */
+  retryAfter?: number;
+  body?: unknown;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: IncomingMessage["headers"];
+  body?: unknown;
+  status: number;
+}
+
+const JSON_LD_TYPES: Record<MockCollection, string> = {
+  people: "Person",
+  organizations: "Organization",
+  tasks: "Task",
+  segments: "Segment",
+  tags: "Tag",
+};
+
+// Fields the API refuses to create or replace a record without.
+const REQUIRED_FIELDS: Record<MockCollection, string[]> = {
+  people: ["name"],
+  organizations: ["name"],
+  tasks: ["title"],
+  segments: ["title", "icon"],
+  tags: ["title"],
+};
+
+const DEFAULT_ITEMS_PER_PAGE = 30;
+const MAX_ITEMS_PER_PAGE = 30;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const DATE_FILTERS: Record<string, (value: string, bound: string) => boolean> = {
+  after: (value, bound) => value >= bound,
+  before: (value, bound) => value <= bound,
+  strictly_after: (value, bound) => value > bound,
+  strictly_before: (value, bound) => value < bound,
+};
+
+/** The ID of a linked record given as an ID, an IRI or an object. */
+function toId(value: unknown): string {
+  if (value && typeof value === "object") {
+    const record = value as MockRecord;
+    return String(record.id ?? String(record["@id"]).split("/").pop());
+  }
+  return String(value).split("/").pop() as string;
+}
+
+function validate(collection: MockCollection, record: MockRecord) {
+  const violations: { propertyPath: string; message: string }[] = [];
+
+  for (const field of REQUIRED_FIELDS[collection]) {
+    if (record[field] === undefined || record[field] === null || record[field] === "") {
+      violations.push({ propertyPath: field, message: "This value should not be blank." });
+    }
+  }
+  if (record.email !== undefined && record.email !== null && record.email !== "") {
+    if (typeof record.email !== "string" || !EMAIL_PATTERN.test(record.email)) {
+      violations.push({
+        propertyPath: "email",
+        message: "This value is not a valid email address.",
+      });
+    }
+  }
+  if (record.due_date !== undefined && record.due_date !== null) {
+    if (typeof record.due_date !== "string" || !DATE_PATTERN.test(record.due_date)) {
+      violations.push({ propertyPath: "due_date", message: "This value is not a valid date." });
+    }
+  }
+
+  return violations;
+}
+
+export class MockRogerRogerApi {
+  /** Every request received, in order. */
+  readonly requests: MockRequest[] = [];
+
+  private records = new Map<MockCollection, Map<string, MockRecord>>();
+  private versions = new Map<string, number>();
+  private failures: MockFailure[] = [];
+  private nextId = 1;
+  private server?: Server;
+
+  /** Answer collection requests with a plain JSON array, without totals. */
+  plainCollections = false;
+
+  constructor(readonly apiKey = "test-key") {
+    this.reset();
+  }
+
+  /** Start listening and return the base URL. Port 0 picks a free port. */
+  async start(port = 0, host = "127.0.0.1"): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        this.send(res, 500, { "hydra:description": String(error) });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve) => server.listen(port, host, resolve));
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    }
+  }
+
+  /** Remove all records, pending failures and logged requests. */
+  reset(): void {
+    for (const collection of MOCK_COLLECTIONS) {
+      this.records.set(collection, new Map());
+    }
+    this.versions.clear();
+    this.failures = [];
+    this.requests.length = 0;
+    this.nextId = 1;
+    this.plainCollections = false;
+  }
+
+  /** Add records directly, skipping validation. Returns them with their IDs. */
+  seed(collection: MockCollection, records: MockRecord[]): MockRecord[] {
+    return records.map((record) => this.insert(collection, record));
+  }
+
+  get(collection: MockCollection, id: string): MockRecord | undefined {
+    return this.records.get(collection)?.get(id);
+  }
+
+  list(collection: MockCollection): MockRecord[] {
+    return [...(this.records.get(collection)?.values() ?? [])];
+  }
+
+  /** Make the next matching request(s) fail with the given status. */
+  failNext(failure: MockFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  private insert(collection: MockCollection, record: MockRecord): MockRecord {
+    const id = record.id !== undefined ? String(record.id) : String(this.nextId++);
+    const now = new Date().toISOString();
+    const stored = {
+      "@id": `/${collection}/${id}`,
+      "@type": JSON_LD_TYPES[collection],
+      ...record,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.records.get(collection)!.set(id, stored);
+    this.versions.set(`${collection}/${id}`, 1);
+    return stored;
+  }
+
+  private etag(collection: MockCollection, id: string): string {
+    return `"${this.versions.get(`${collection}/${id}`) ?? 0}"`;
+  }
+
+  private takeFailure(method: string, path: string): MockFailure | undefined {
+    const index = this.failures.findIndex(
+      (failure) =>
+        (!failure.method || failure.method.toUpperCase() === method) &&
+        (!failure.path || path.startsWith(failure.path))
+    );
+    if (index < 0) {
+      return undefined;
+    }
+
+    const failure = this.failures[index];
+    failure.times = (failure.times ?? 1) - 1;
+    if (failure.times <= 0) {
+      this.failures.splice(index, 1);
+    }
+    return failure;
+  }
+
+  private send(
+    res: ServerResponse,
+    status: number,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): void {
+    const request = this.requests[this.requests.length - 1];
+    if (request) {
+      request.status = status;
+    }
+    res.writeHead(status, {
+      ...(body !== undefined && { "Content-Type": "application/ld+json" }),
+      ...headers,
+    });
+    res.end(body !== undefined ? JSON.stringify(body) : undefined);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    let text = "";
+    for await (const chunk of req) {
+      text += chunk;
+    }
+
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      this.requests.push({
+        method,
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers: req.headers,
+        body: text,
+        status: 0,
+      });
+      this.send(res, 400, { "hydra:description": "Syntax error: the body is not valid JSON" });
+      return;
+    }
+
+    this.requests.push({
+      method,
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+      body,
+      status: 0,
+    });
+
+    if (req.headers["x-api-key"] !== this.apiKey) {
+      this.send(res, 401, { code: 401, message: "Invalid API key" });
+      return;
+    }
+
+    const failure = this.takeFailure(method, url.pathname);
+    if (failure?.status === 0) {
+      res.destroy();
+      return;
+    }
+    if (failure) {
+      this.send(
+        res,
+        failure.status,
+        failure.body ?? { "hydra:description": `Injected ${failure.status} failure` },
+        failure.retryAfter !== undefined ? { "Retry-After": String(failure.retryAfter) } : {}
+      );
+      return;
+    }
+
+    const [collection, id, ...rest] = url.pathname.split("/").filter(Boolean) as [
+      MockCollection,
+      string | undefined,
+      ...string[],
+    ];
+    if (!MOCK_COLLECTIONS.includes(collection) || rest.length > 0) {
+      this.send(res, 404, { "hydra:description": `No route found for "${method} ${url.pathname}"` });
+      return;
+    }
+
+    if (id === undefined) {
+      if (method === "GET") {
+        this.sendCollection(res, collection, url.searchParams);
+      } else if (method === "POST") {
+        this.create(res, collection, body);
+      } else {
+        this.send(res, 405, { "hydra:description": `Method ${method} not allowed` });
+      }
+      return;
+    }
+
+    this.handleItem(req, res, method, collection, id, body);
+  }
+
+  private sendCollection(
+    res: ServerResponse,
+    collection: MockCollection,
+    params: URLSearchParams
+  ): void {
+    let items = this.list(collection);
+
+    for (const [key, value] of params) {
+      if (key === "page" || key === "itemsPerPage") {
+        continue;
+      }
+      if (key === "q") {
+        const query = value.toLowerCase();
+        items = items.filter((record) =>
+          Object.values(record).some(
+            (field) => typeof field === "string" && field.toLowerCase().includes(query)
+          )
+        );
+        continue;
+      }
+
+      const dateFilter = key.match(/^(\w+)\[(\w+)\]$/);
+      if (dateFilter && DATE_FILTERS[dateFilter[2]]) {
+        const [, field, operator] = dateFilter;
+        items = items.filter(
+          (record) =>
+            typeof record[field] === "string" &&
+            DATE_FILTERS[operator]((record[field] as string).slice(0, 10), value)
+        );
+        continue;
+      }
+
+      items = items.filter((record) => {
+        const field = record[key];
+        return Array.isArray(field)
+          ? field.map(toId).includes(toId(value))
+          : field !== undefined && field !== null && toId(field) === toId(value);
+      });
+    }
+
+    const page = Math.max(1, Number(params.get("page") ?? 1) || 1);
+    const itemsPerPage = Math.min(
+      MAX_ITEMS_PER_PAGE,
+      Math.max(1, Number(params.get("itemsPerPage") ?? DEFAULT_ITEMS_PER_PAGE) || 1)
+    );
+    const lastPage = Math.max(1, Math.ceil(items.length / itemsPerPage));
+
+    if (this.plainCollections) {
+      this.send(res, 200, items.slice((page - 1) * itemsPerPage, page * itemsPerPage));
+      return;
+    }
+
+    this.send(res, 200, {
+      "@context": `/contexts/${JSON_LD_TYPES[collection]}`,
+      "@id": `/${collection}`,
+      "@type": "hydra:Collection",
+      "hydra:member": items.slice((page - 1) * itemsPerPage, page * itemsPerPage),
+      "hydra:totalItems": items.length,
+      "hydra:view": {
+        "@id": `/${collection}?page=${page}`,
+        "@type": "hydra:PartialCollectionView",
+        "hydra:first": `/${collection}?page=1`,
+        "hydra:last": `/${collection}?page=${lastPage}`,
+        ...(page < lastPage && { "hydra:next": `/${collection}?page=${page + 1}` }),
+      },
+    });
+  }
+
+  private create(res: ServerResponse, collection: MockCollection, body: unknown): void {
+    const fields = (body && typeof body === "object" ? body : {}) as MockRecord;
+    const violations = validate(collection, fields);
+    if (violations.length > 0) {
+      this.sendViolations(res, violations);
+      return;
+    }
+
+    const { id: _, ...record } = fields;
+    const created = this.insert(collection, record);
+    this.send(res, 201, created, { ETag: this.etag(collection, String(created.id)) });
+  }
+
+  private handleItem(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    collection: MockCollection,
+    id: string,
+    body: unknown
+  ): void {
+    const records = this.records.get(collection)!;
+    const current = records.get(id);
+    if (!current) {
+      this.send(res, 404, { "hydra:description": "Not Found" });
+      return;
+    }
+
+    const ifMatch = req.headers["if-match"];
+    if (ifMatch && ifMatch !== this.etag(collection, id)) {
+      this.send(res, 412, { "hydra:description": "The record was modified by another request" });
+      return;
+    }
+
+    if (method === "GET") {
+      this.send(res, 200, current, { ETag: this.etag(collection, id) });
+      return;
+    }
+
+    if (method === "DELETE") {
+      records.delete(id);
+      this.versions.delete(`${collection}/${id}`);
+      this.send(res, 204);
+      return;
+    }
+
+    if (method !== "PUT" && method !== "PATCH") {
+      this.send(res, 405, { "hydra:description": `Method ${method} not allowed` });
+      return;
+    }
+
+    const fields = (body && typeof body === "object" ? body : {}) as MockRecord;
+    const { id: _, createdAt: __, updatedAt: ___, ...changes } = fields;
+    // PUT replaces every writable field; PATCH only the ones sent.
+    const next: MockRecord =
+      method === "PUT"
+        ? {
+            "@id": current["@id"],
+            "@type": current["@type"],
+            ...changes,
+            id,
+            createdAt: current.createdAt,
+          }
+        : { ...current, ...changes };
+
+    const violations = validate(collection, next);
+    if (violations.length > 0) {
+      this.sendViolations(res, violations);
+      return;
+    }
+
+    next.updatedAt = new Date().toISOString();
+    records.set(id, next);
+    this.versions.set(`${collection}/${id}`, (this.versions.get(`${collection}/${id}`) ?? 0) + 1);
+    this.send(res, 200, next, { ETag: this.etag(collection, id) });
+  }
+
+  private sendViolations(
+    res: ServerResponse,
+    violations: { propertyPath: string; message: string }[]
+  ): void {
+    this.send(res, 422, {
+      "@context": "/contexts/ConstraintViolationList",
+      "@type": "ConstraintViolationList",
+      "hydra:title": "An error occurred",
+      "hydra:description": violations
+        .map(({ propertyPath, message }) => `${propertyPath}: ${message}`)
+        .join("\n"),
+      violations,
+    });
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const api = new MockRogerRogerApi(process.env.ROGERROGER_API_KEY || "test-key");
+  const [acme] = api.seed("organizations", [
+    { name: "Acme Corp", website: "https://acme.example", industry: "Manufacturing" },
+  ]);
+  const [vip] = api.seed("tags", [{ title: "VIP", backgroundColor: "#ff0000" }]);
+  const [newsletter] = api.seed("segments", [{ title: "Newsletter", icon: "mail" }]);
+  const [jane] = api.seed("people", [
+    {
+      name: "Jane Smith",
+      email: "jane@acme.example",
+      company: "Acme Corp",
+      organizations: [acme["@id"]],
+      tags: [vip["@id"]],
+      segments: [newsletter["@id"]],
+    },
+    { name: "Max Müller", email: "max@example.com" },
+  ]);
+  api.seed("tasks", [
+    { title: "Send proposal", status: "open", person_id: jane.id, due_date: "2024-12-31" },
+  ]);
+
+  api
+    .start(Number(process.env.ROGERROGER_MOCK_PORT ?? 4010))
+    .then((url) => {
+      console.error(`Mock RogerRoger API listening on ${url} (API key "${api.apiKey}")`);
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exitCode = 1;
+    });
+}
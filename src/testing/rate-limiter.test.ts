@@ -0,0 +1,130 @@
+import { ConcurrencyQueue, TokenBucket } from "../utils/rate-limiter.js";
+
+// Timing-based checks use real timers with generous bounds, since the
+// bucket reads Date.now() and waits with setTimeout.
+
+/** A promise together with the function that resolves it. */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+const consoleError = console.error;
+
+beforeEach(() => {
+  // The queue reports every request it holds back.
+  console.error = () => {};
+});
+
+afterEach(() => {
+  console.error = consoleError;
+});
+
+describe("TokenBucket", () => {
+  test("callers are served in the order they asked", async () => {
+    const bucket = new TokenBucket(50, 1);
+    const served: number[] = [];
+
+    await Promise.all(
+      [0, 1, 2, 3].map((index) => bucket.take().then(() => served.push(index)))
+    );
+    expect(served).toEqual([0, 1, 2, 3]);
+  });
+
+  test("a full bucket is spent at once, then refills at the configured rate", async () => {
+    const bucket = new TokenBucket(20, 2);
+    const start = Date.now();
+
+    await bucket.take();
+    await bucket.take();
+    expect(Date.now() - start).toBeLessThan(40);
+
+    // Two more tokens at 20 per second take 100ms.
+    await bucket.take();
+    await bucket.take();
+    const elapsed = Date.now() - start;
+    expect(elapsed).toBeGreaterThanOrEqual(90);
+    expect(elapsed).toBeLessThan(1000);
+  });
+
+  test("a rate of 0 turns limiting off", async () => {
+    const bucket = new TokenBucket(0, 0);
+    const start = Date.now();
+
+    await Promise.all(Array.from({ length: 100 }, () => bucket.take()));
+    expect(Date.now() - start).toBeLessThan(40);
+  });
+
+  test("invalid settings are rejected", () => {
+    expect(() => new TokenBucket(Number.NaN, 1)).toThrow(RangeError);
+    expect(() => new TokenBucket(-1, 1)).toThrow(RangeError);
+    expect(() => new TokenBucket(5, 0)).toThrow(RangeError);
+  });
+});
+
+describe("ConcurrencyQueue", () => {
+  test("at most maxConcurrency tasks are in flight", async () => {
+    const queue = new ConcurrencyQueue(2);
+    const gates = [0, 1, 2, 3, 4].map(() => deferred());
+    let active = 0;
+    let maxActive = 0;
+
+    const runs = gates.map((gate, index) =>
+      queue.run(`task ${index}`, async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await gate.promise;
+        active--;
+      })
+    );
+    expect(queue.pending).toBe(3);
+
+    for (const gate of gates) {
+      gate.resolve();
+    }
+    await Promise.all(runs);
+    expect(maxActive).toBe(2);
+    expect(queue.pending).toBe(0);
+  });
+
+  test("queued tasks start in the order they were queued when the queue is full", async () => {
+    const queue = new ConcurrencyQueue(1);
+    const first = deferred();
+    const started: number[] = [];
+
+    const runs = [
+      queue.run("task 0", async () => {
+        started.push(0);
+        await first.promise;
+      }),
+      ...[1, 2, 3].map((index) =>
+        queue.run(`task ${index}`, async () => {
+          started.push(index);
+        })
+      ),
+    ];
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(started).toEqual([0]);
+
+    first.resolve();
+    await Promise.all(runs);
+    expect(started).toEqual([0, 1, 2, 3]);
+  });
+
+  test("a failed task frees its slot", async () => {
+    const queue = new ConcurrencyQueue(1);
+
+    await expect(
+      queue.run("failing", async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    await expect(queue.run("next", async () => "done")).resolves.toBe("done");
+  });
+
+  test("invalid settings are rejected", () => {
+    expect(() => new ConcurrencyQueue(1.5)).toThrow(RangeError);
+    expect(() => new ConcurrencyQueue(-1)).toThrow(RangeError);
+  });
+});
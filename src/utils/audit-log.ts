@@ -0,0 +1,130 @@
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/** One write request a tool call sent to the API. */
+export interface AuditRequest {
+  method: string;
+  endpoint: string;
+  // 0 when the request failed without a response
+  status: number;
+  id?: string;
+  error?: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  workspace?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  targetId?: string;
+  // Status and returned ID of the last write request
+  httpStatus?: number;
+  responseId?: string;
+  requests?: AuditRequest[];
+  success: boolean;
+  error?: string;
+}
+
+export interface AuditLogOptions {
+  path: string;
+  maxBytes: number;
+  maxFiles: number;
+}
+
+const SECRET_KEY_PATTERN = /key|token|secret|password|authorization/i;
+
+/**
+ * Replace the values of secret-looking keys, at any depth, with a marker.
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_KEY_PATTERN.test(key) ? "[REDACTED]" : redactSecrets(item),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Append-only JSONL audit file. When the file would grow past maxBytes it
+ * is rotated to `<path>.1`, `<path>.2`, ... keeping at most maxFiles old files.
+ */
+export class AuditLog {
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: AuditLogOptions) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    // Writes are chained so rotation never races with an append.
+    const next = this.tail.then(async () => {
+      await mkdir(dirname(this.options.path), { recursive: true });
+      await this.rotateIfNeeded(Buffer.byteLength(line));
+      await appendFile(this.options.path, line, { mode: 0o600 });
+    });
+    this.tail = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Read entries newest first, across the current and rotated files.
+   */
+  async read(filter: (entry: AuditEntry) => boolean, limit: number): Promise<AuditEntry[]> {
+    await this.tail;
+    const entries: AuditEntry[] = [];
+
+    for (let index = 0; index <= this.options.maxFiles && entries.length < limit; index++) {
+      const path = index === 0 ? this.options.path : `${this.options.path}.${index}`;
+      let contents: string;
+      try {
+        contents = await readFile(path, "utf8");
+      } catch {
+        continue;
+      }
+
+      const lines = contents.split("\n").filter(Boolean).reverse();
+      for (const line of lines) {
+        try {
+          const entry = JSON.parse(line) as AuditEntry;
+          if (filter(entry)) {
+            entries.push(entry);
+            if (entries.length >= limit) break;
+          }
+        } catch {
+          // Skip partially written lines
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private async rotateIfNeeded(incomingBytes: number): Promise<void> {
+    let size: number;
+    try {
+      size = (await stat(this.options.path)).size;
+    } catch {
+      return;
+    }
+    if (this.options.maxBytes <= 0 || size + incomingBytes <= this.options.maxBytes) {
+      return;
+    }
+
+    const { path, maxFiles } = this.options;
+    if (maxFiles <= 0) {
+      await rm(path, { force: true });
+      return;
+    }
+    await rm(`${path}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      await rename(`${path}.${index}`, `${path}.${index + 1}`).catch(() => undefined);
+    }
+    await rename(path, `${path}.1`);
+  }
+}
@@ -0,0 +1,48 @@
+export interface BulkItemResult {
+  index: number;
+  status: string;
+  id?: string;
+  error?: string;
+}
+
+/**
+ * Run `task` over every item with at most `concurrency` items in flight.
+ * Failures are reported per item; with stopOnError, items not yet started
+ * after the first failure are reported as skipped.
+ */
+export async function runBulk<T>(
+  items: T[],
+  options: { concurrency: number; stopOnError: boolean; successStatus: string },
+  task: (item: T, index: number) => Promise<string | undefined>
+): Promise<BulkItemResult[]> {
+  const results: BulkItemResult[] = new Array(items.length);
+  let next = 0;
+  let stopped = false;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      if (stopped) {
+        results[index] = { index, status: "skipped" };
+        continue;
+      }
+      try {
+        const id = await task(items[index], index);
+        results[index] = { index, status: options.successStatus, id };
+      } catch (error) {
+        results[index] = {
+          index,
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        };
+        if (options.stopOnError) {
+          stopped = true;
+        }
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,98 @@
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface ChangeEntry {
+  id: string;
+  timestamp: string;
+  workspace?: string;
+  tool: string;
+  kind: string;
+  recordId: string;
+  action: "update" | "delete";
+  before: Record<string, unknown>;
+  undoneAt?: string;
+  restoredId?: string;
+}
+
+/**
+ * Snapshots of records taken before they were updated or deleted, newest
+ * first. Kept in memory and mirrored to a JSON file when a path is given.
+ */
+export class ChangeHistory {
+  private entries: ChangeEntry[] = [];
+  private loading?: Promise<void>;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly limit: number,
+    private readonly path?: string
+  ) {}
+
+  async add(entry: Omit<ChangeEntry, "id" | "timestamp">): Promise<ChangeEntry> {
+    await this.load();
+    const change: ChangeEntry = {
+      id: randomBytes(6).toString("hex"),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+    this.entries.unshift(change);
+    this.entries.length = Math.min(this.entries.length, this.limit);
+    await this.save();
+    return change;
+  }
+
+  async list(
+    limit: number,
+    filter: (entry: ChangeEntry) => boolean = () => true
+  ): Promise<ChangeEntry[]> {
+    await this.load();
+    return this.entries.filter(filter).slice(0, limit);
+  }
+
+  async get(id: string): Promise<ChangeEntry | undefined> {
+    await this.load();
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  async markUndone(id: string, restoredId?: string): Promise<void> {
+    const entry = await this.get(id);
+    if (entry) {
+      entry.undoneAt = new Date().toISOString();
+      entry.restoredId = restoredId;
+      await this.save();
+    }
+  }
+
+  /**
+   * Read the file once. Callers that arrive while it is being read wait for
+   * the same read, so no entry is added before the file replaces them.
+   */
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      if (!this.path) {
+        return;
+      }
+      try {
+        this.entries = JSON.parse(await readFile(this.path, "utf8"));
+      } catch {
+        this.entries = [];
+      }
+    })();
+    return this.loading;
+  }
+
+  private save(): Promise<void> {
+    const path = this.path;
+    if (!path) {
+      return Promise.resolve();
+    }
+    // Writes are chained so two saves never write the file at the same time.
+    const next = this.tail.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(this.entries, null, 2), { mode: 0o600 });
+    });
+    this.tail = next.catch(() => undefined);
+    return next;
+  }
+}
@@ -0,0 +1,599 @@
+import { execSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { AuditLogOptions } from "./audit-log.js";
+import { parsePatternList } from "./glob.js";
+import { RetryOptions } from "./retry.js";
+
+export interface WorkspaceProfile {
+  name: string;
+  apiKey: string;
+  baseUrl: string;
+  readOnly: boolean;
+}
+
+export interface RogerRogerConfig {
+  configFile?: string;
+  workspaces: WorkspaceProfile[];
+  defaultWorkspace?: string;
+  retry: RetryOptions;
+  rateLimitPerSecond: number;
+  rateLimitBurst: number;
+  maxConcurrency: number;
+  maxPaginatedItems: number;
+  transport: "stdio" | "http";
+  http: {
+    port: number;
+    host: string;
+    authToken?: string;
+  };
+  readOnly: boolean;
+  toolsAllow: string[];
+  toolsDeny: string[];
+  skipDeleteConfirmation: boolean;
+  bulkConcurrency: number;
+  maxResponseChars: number;
+  auditLog?: AuditLogOptions;
+  changeHistory: {
+    enabled: boolean;
+    path?: string;
+    limit: number;
+  };
+}
+
+// The workspace that ROGERROGER_API_KEY (or apiKey in the config file)
+// describes.
+export const DEFAULT_WORKSPACE_NAME = "default";
+
+const CONFIG_FILE_NAME = "rogerroger-mcp.json";
+
+const WORKSPACE_NAME = /^[a-z0-9][a-z0-9_-]*$/;
+const WORKSPACE_VARIABLE = /^ROGERROGER_WORKSPACE_(.+)_(API_KEY|BASE_URL|READ_ONLY)$/;
+const API_KEY_KEYS = ["apiKey", "apiKeyFile", "apiKeyCommand"];
+const WORKSPACE_KEYS = new Set([...API_KEY_KEYS, "baseUrl", "readOnly"]);
+
+// Options that are not settings: the config file location, and whether to
+// print the resolved config instead of starting.
+const CONFIG_FLAGS = new Set(["config", "print-config"]);
+
+interface ValueType {
+  type: "string" | "integer" | "number" | "boolean" | "list";
+  min?: number;
+  values?: readonly string[];
+  url?: boolean;
+}
+
+interface Setting extends ValueType {
+  // Key in the config file; the CLI flag is the same in kebab-case unless
+  // given.
+  key: string;
+  env: string;
+  flag?: string;
+  // Paths in the config file are relative to the file.
+  path?: boolean;
+  // Secrets cannot be passed on the command line, where other users of the
+  // machine could see them.
+  secret?: boolean;
+}
+
+const SETTINGS: Setting[] = [
+  { key: "baseUrl", env: "ROGERROGER_BASE_URL", type: "string", url: true },
+  { key: "defaultWorkspace", env: "ROGERROGER_DEFAULT_WORKSPACE", type: "string" },
+  { key: "maxRetries", env: "ROGERROGER_MAX_RETRIES", type: "integer", min: 0 },
+  { key: "retryMaxDelayMs", env: "ROGERROGER_RETRY_MAX_DELAY_MS", type: "integer", min: 0 },
+  { key: "rateLimit", env: "ROGERROGER_RATE_LIMIT", type: "number", min: 0 },
+  { key: "rateLimitBurst", env: "ROGERROGER_RATE_LIMIT_BURST", type: "integer", min: 1 },
+  { key: "maxConcurrency", env: "ROGERROGER_MAX_CONCURRENCY", type: "integer", min: 0 },
+  { key: "maxPaginatedItems", env: "ROGERROGER_MAX_PAGINATED_ITEMS", type: "integer", min: 1 },
+  { key: "transport", env: "ROGERROGER_TRANSPORT", type: "string", values: ["stdio", "http"] },
+  { key: "httpPort", env: "ROGERROGER_HTTP_PORT", flag: "port", type: "integer", min: 0 },
+  { key: "httpHost", env: "ROGERROGER_HTTP_HOST", flag: "host", type: "string" },
+  { key: "httpToken", env: "ROGERROGER_HTTP_TOKEN", type: "string", secret: true },
+  { key: "readOnly", env: "ROGERROGER_READ_ONLY", type: "boolean" },
+  { key: "toolsAllow", env: "ROGERROGER_TOOLS_ALLOW", type: "list" },
+  { key: "toolsDeny", env: "ROGERROGER_TOOLS_DENY", type: "list" },
+  { key: "skipDeleteConfirmation", env: "ROGERROGER_SKIP_DELETE_CONFIRMATION", type: "boolean" },
+  { key: "bulkConcurrency", env: "ROGERROGER_BULK_CONCURRENCY", type: "integer", min: 1 },
+  { key: "maxResponseChars", env: "ROGERROGER_MAX_RESPONSE_CHARS", type: "integer", min: 0 },
+  { key: "auditLog", env: "ROGERROGER_AUDIT_LOG", type: "string", path: true },
+  { key: "auditLogMaxBytes", env: "ROGERROGER_AUDIT_LOG_MAX_BYTES", type: "integer", min: 0 },
+  { key: "auditLogMaxFiles", env: "ROGERROGER_AUDIT_LOG_MAX_FILES", type: "integer", min: 0 },
+  { key: "changeHistory", env: "ROGERROGER_CHANGE_HISTORY", type: "string", path: true },
+  { key: "changeHistoryLimit", env: "ROGERROGER_CHANGE_HISTORY_LIMIT", type: "integer", min: 1 },
+];
+
+// Values that are not paths in the path settings.
+const PATH_KEYWORDS = new Set(["off", "memory"]);
+
+const DEFAULT_BASE_URL = "https://api.rogerroger.io";
+const URL_VALUE: ValueType = { type: "string", url: true };
+const BOOLEAN_VALUE: ValueType = { type: "boolean" };
+
+/**
+ * Invalid configuration, with one message per problem so they can all be
+ * fixed at once.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `- ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+function toFlag(setting: Setting): string | undefined {
+  if (setting.secret) {
+    return undefined;
+  }
+  return setting.flag ?? setting.key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Expand a leading ~ and resolve relative paths against a directory. */
+function resolvePath(path: string, base: string): string {
+  if (path === "~" || path.startsWith("~/")) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(base, path);
+}
+
+/**
+ * Parse `--name value`, `--name=value` and, for boolean settings, a bare
+ * `--name`. Unknown options are reported unless the caller accepts them.
+ */
+function parseFlags(
+  argv: string[],
+  otherFlags: string[],
+  problems: string[]
+): Map<string, string> {
+  const booleans = new Set(
+    SETTINGS.filter(({ type }) => type === "boolean").map((setting) => toFlag(setting))
+  );
+  booleans.add("print-config");
+  const known = new Set([...SETTINGS.map(toFlag), ...CONFIG_FLAGS]);
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) {
+      continue;
+    }
+    const [name, inline] = argv[i].slice(2).split(/=(.*)/s);
+    if (!known.has(name)) {
+      if (!otherFlags.includes(name)) {
+        problems.push(`Unknown option --${name}`);
+      }
+      continue;
+    }
+
+    if (inline !== undefined) {
+      flags.set(name, inline);
+    } else if (booleans.has(name)) {
+      flags.set(name, "true");
+    } else if (i + 1 < argv.length) {
+      flags.set(name, argv[++i]);
+    } else {
+      problems.push(`--${name} needs a value`);
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * The config file to use: the one given with --config or ROGERROGER_CONFIG,
+ * else rogerroger-mcp.json in the working directory, else config.json in
+ * the user's config directory.
+ */
+function findConfigFile(
+  flags: Map<string, string>,
+  env: Record<string, string | undefined>
+): { path?: string; explicit: boolean } {
+  const explicit = flags.get("config") ?? (env.ROGERROGER_CONFIG || undefined);
+  if (explicit) {
+    return { path: resolvePath(explicit, process.cwd()), explicit: true };
+  }
+
+  const candidates = [
+    resolve(CONFIG_FILE_NAME),
+    join(env.XDG_CONFIG_HOME || join(homedir(), ".config"), "rogerroger-mcp", "config.json"),
+  ];
+  return { path: candidates.find((path) => existsSync(path)), explicit: false };
+}
+
+function readConfigFile(path: string, problems: string[]): Record<string, unknown> {
+  let text;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    problems.push(`Cannot read config file ${path}: ${(error as Error).message}`);
+    return {};
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    problems.push(`Config file ${path} is not valid JSON: ${(error as Error).message}`);
+    return {};
+  }
+  if (!isPlainObject(data)) {
+    problems.push(`Config file ${path} must contain a JSON object`);
+    return {};
+  }
+
+  const known = new Set([...SETTINGS.map(({ key }) => key), ...API_KEY_KEYS, "workspaces"]);
+  for (const key of Object.keys(data)) {
+    if (!known.has(key) && key !== "$schema") {
+      problems.push(`Unknown setting "${key}" in ${path}`);
+    }
+  }
+  return data;
+}
+
+/**
+ * Convert a raw value from the environment, a CLI flag (both strings) or the
+ * config file to the setting's type. Returns undefined and records a problem
+ * naming the source when the value is invalid.
+ */
+function parseValue(
+  setting: ValueType,
+  raw: unknown,
+  source: string,
+  problems: string[]
+): unknown {
+  const fail = (expected: string) => {
+    problems.push(`${source} must be ${expected}, got ${JSON.stringify(raw)}`);
+    return undefined;
+  };
+
+  switch (setting.type) {
+    case "boolean":
+      if (raw === true || raw === "true") return true;
+      if (raw === false || raw === "false") return false;
+      return fail("true or false");
+    case "integer":
+    case "number": {
+      const value = typeof raw === "string" && raw.trim() !== "" ? Number(raw) : raw;
+      const expected =
+        (setting.type === "integer" ? "an integer" : "a number") +
+        (setting.min !== undefined ? ` >= ${setting.min}` : "");
+      if (
+        typeof value !== "number" ||
+        !Number.isFinite(value) ||
+        (setting.type === "integer" && !Number.isInteger(value)) ||
+        (setting.min !== undefined && value < setting.min)
+      ) {
+        return fail(expected);
+      }
+      return value;
+    }
+    case "list":
+      if (Array.isArray(raw) && raw.every((item) => typeof item === "string")) {
+        return raw.map((item) => item.trim()).filter(Boolean);
+      }
+      if (typeof raw === "string") {
+        return parsePatternList(raw);
+      }
+      return fail("a list of strings or a comma-separated string");
+    case "string":
+      if (typeof raw !== "string" || raw === "") {
+        return fail("a non-empty string");
+      }
+      if (setting.values && !setting.values.includes(raw)) {
+        return fail(`one of ${setting.values.join(", ")}`);
+      }
+      if (setting.url && !/^https?:\/\/[^/]/.test(raw)) {
+        return fail("an http(s) URL");
+      }
+      return setting.url ? raw.replace(/\/+$/, "") : raw;
+  }
+}
+
+interface ApiKeyReference {
+  key: string;
+  value: unknown;
+  source: string;
+  base: string;
+}
+
+/**
+ * The API key reference of a workspace in the config file: a plaintext
+ * apiKey, an apiKeyFile to read it from, or an apiKeyCommand that prints it.
+ */
+function findApiKeyReference(
+  entry: Record<string, unknown>,
+  where: string,
+  base: string,
+  problems: string[]
+): ApiKeyReference | undefined {
+  const keys = API_KEY_KEYS.filter((key) => entry[key] !== undefined);
+  if (keys.length > 1) {
+    problems.push(`${where}: use only one of ${keys.join(", ")}`);
+  }
+  return keys.length > 0
+    ? { key: keys[0], value: entry[keys[0]], source: `${keys[0]} in ${where}`, base }
+    : undefined;
+}
+
+function resolveApiKey(reference: ApiKeyReference, problems: string[]): string | undefined {
+  const { key, value, source, base } = reference;
+  if (typeof value !== "string" || value.trim() === "") {
+    problems.push(`${source} must be a non-empty string`);
+    return undefined;
+  }
+
+  let apiKey: string;
+  try {
+    if (key === "apiKeyFile") {
+      apiKey = readFileSync(resolvePath(value, base), "utf8");
+    } else if (key === "apiKeyCommand") {
+      apiKey = execSync(value, {
+        cwd: base,
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "pipe"],
+        timeout: 30000,
+      });
+    } else {
+      apiKey = value;
+    }
+  } catch (error) {
+    const detail =
+      (error as { stderr?: string }).stderr?.trim() || (error as Error).message.split("\n")[0];
+    problems.push(
+      key === "apiKeyFile"
+        ? `Cannot read the API key file for ${source}: ${detail}`
+        : `The API key command for ${source} failed: ${detail}`
+    );
+    return undefined;
+  }
+
+  apiKey = apiKey.trim();
+  if (!apiKey) {
+    problems.push(`${source} gave an empty API key`);
+    return undefined;
+  }
+  return apiKey;
+}
+
+interface WorkspaceLayer {
+  apiKey?: ApiKeyReference;
+  baseUrl?: { value: unknown; source: string };
+  readOnly?: { value: unknown; source: string };
+}
+
+/**
+ * Collect workspace settings from the config file, then the environment,
+ * which wins field by field. Keys are only resolved (files read, commands
+ * run) for the layer that ends up being used.
+ */
+function resolveWorkspaces(
+  file: Record<string, unknown>,
+  filePath: string | undefined,
+  env: Record<string, string | undefined>,
+  baseUrl: string,
+  problems: string[]
+): WorkspaceProfile[] {
+  const layers = new Map<string, WorkspaceLayer>();
+  const base = filePath ? dirname(filePath) : process.cwd();
+  const layer = (name: string) => {
+    const existing = layers.get(name) ?? {};
+    layers.set(name, existing);
+    return existing;
+  };
+
+  if (filePath) {
+    const apiKey = findApiKeyReference(file, filePath, base, problems);
+    if (apiKey) {
+      layer(DEFAULT_WORKSPACE_NAME).apiKey = apiKey;
+    }
+
+    const workspaces = file.workspaces ?? {};
+    if (!isPlainObject(workspaces)) {
+      problems.push(`workspaces in ${filePath} must be an object keyed by workspace name`);
+    } else {
+      for (const [rawName, entry] of Object.entries(workspaces)) {
+        const name = rawName.toLowerCase();
+        const where = `workspaces.${rawName} in ${filePath}`;
+        if (!isPlainObject(entry)) {
+          problems.push(`${where} must be an object`);
+          continue;
+        }
+        for (const key of Object.keys(entry)) {
+          if (!WORKSPACE_KEYS.has(key)) {
+            problems.push(`Unknown setting "${key}" in ${where}`);
+          }
+        }
+
+        const settings = layer(name);
+        settings.apiKey = findApiKeyReference(entry, where, base, problems) ?? settings.apiKey;
+        if (entry.baseUrl !== undefined) {
+          settings.baseUrl = { value: entry.baseUrl, source: `baseUrl in ${where}` };
+        }
+        if (entry.readOnly !== undefined) {
+          settings.readOnly = { value: entry.readOnly, source: `readOnly in ${where}` };
+        }
+      }
+    }
+  }
+
+  if (env.ROGERROGER_API_KEY) {
+    layer(DEFAULT_WORKSPACE_NAME).apiKey = {
+      key: "apiKey",
+      value: env.ROGERROGER_API_KEY,
+      source: "ROGERROGER_API_KEY",
+      base,
+    };
+  }
+  for (const [variable, value] of Object.entries(env)) {
+    const match = variable.match(WORKSPACE_VARIABLE);
+    if (!match || !value) {
+      continue;
+    }
+    const settings = layer(match[1].toLowerCase());
+    if (match[2] === "API_KEY") {
+      settings.apiKey = { key: "apiKey", value, source: variable, base };
+    } else if (match[2] === "BASE_URL") {
+      settings.baseUrl = { value, source: variable };
+    } else {
+      settings.readOnly = { value, source: variable };
+    }
+  }
+
+  const profiles: WorkspaceProfile[] = [];
+  for (const [name, settings] of layers) {
+    if (!WORKSPACE_NAME.test(name)) {
+      problems.push(
+        `Invalid workspace name "${name}": use letters, digits, "-" and "_", starting with a letter or digit`
+      );
+      continue;
+    }
+    if (!settings.apiKey) {
+      problems.push(`Workspace ${name} has no API key`);
+      continue;
+    }
+
+    const apiKey = resolveApiKey(settings.apiKey, problems);
+    const url = settings.baseUrl
+      ? parseValue(URL_VALUE, settings.baseUrl.value, settings.baseUrl.source, problems)
+      : baseUrl;
+    const readOnly = settings.readOnly
+      ? parseValue(BOOLEAN_VALUE, settings.readOnly.value, settings.readOnly.source, problems)
+      : false;
+    if (apiKey && typeof url === "string" && typeof readOnly === "boolean") {
+      profiles.push({ name, apiKey, baseUrl: url, readOnly });
+    }
+  }
+
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Resolve the configuration from, in increasing order of precedence: the
+ * defaults, the config file, environment variables and CLI flags. Throws a
+ * ConfigError listing every problem found.
+ *
+ * otherFlags are CLI options handled elsewhere (such as those of the export
+ * command), which are not reported as unknown.
+ */
+export function loadConfig(
+  argv: string[],
+  env: Record<string, string | undefined>,
+  otherFlags: string[] = []
+): RogerRogerConfig {
+  const problems: string[] = [];
+  const flags = parseFlags(argv, otherFlags, problems);
+  const { path: configFile, explicit } = findConfigFile(flags, env);
+  if (explicit && configFile && !existsSync(configFile)) {
+    throw new ConfigError([`Config file ${configFile} does not exist`]);
+  }
+  const file = configFile ? readConfigFile(configFile, problems) : {};
+
+  const values: Record<string, any> = {};
+  for (const setting of SETTINGS) {
+    const flag = toFlag(setting);
+    let value: unknown;
+    if (flag && flags.has(flag)) {
+      value = parseValue(setting, flags.get(flag), `--${flag}`, problems);
+    } else if (env[setting.env]) {
+      value = parseValue(setting, env[setting.env], setting.env, problems);
+    } else if (file[setting.key] !== undefined) {
+      value = parseValue(setting, file[setting.key], `${setting.key} in ${configFile}`, problems);
+      if (setting.path && typeof value === "string" && !PATH_KEYWORDS.has(value)) {
+        value = resolvePath(value, dirname(configFile!));
+      }
+    }
+    values[setting.key] = value;
+  }
+
+  const workspaces = resolveWorkspaces(
+    file,
+    configFile,
+    env,
+    values.baseUrl ?? DEFAULT_BASE_URL,
+    problems
+  );
+  const defaultWorkspace = values.defaultWorkspace?.toLowerCase();
+  if (workspaces.length === 0 && problems.length === 0) {
+    problems.push(
+      "No API key configured. Set ROGERROGER_API_KEY, or apiKey, apiKeyFile or apiKeyCommand in the config file"
+    );
+  }
+  if (defaultWorkspace && !workspaces.some(({ name }) => name === defaultWorkspace)) {
+    problems.push(`The default workspace "${defaultWorkspace}" is not configured`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  const dataDir = join(homedir(), ".rogerroger-mcp");
+  return {
+    configFile,
+    workspaces,
+    defaultWorkspace,
+    retry: {
+      maxRetries: values.maxRetries ?? 3,
+      baseDelayMs: 500,
+      maxDelayMs: values.retryMaxDelayMs ?? 30000,
+    },
+    rateLimitPerSecond: values.rateLimit ?? 5,
+    rateLimitBurst: values.rateLimitBurst ?? 10,
+    maxConcurrency: values.maxConcurrency ?? 4,
+    maxPaginatedItems: values.maxPaginatedItems ?? 1000,
+    transport: values.transport ?? "stdio",
+    http: {
+      port: values.httpPort ?? 3000,
+      host: values.httpHost ?? "127.0.0.1",
+      authToken: values.httpToken,
+    },
+    readOnly: values.readOnly ?? false,
+    toolsAllow: values.toolsAllow ?? [],
+    toolsDeny: values.toolsDeny ?? [],
+    skipDeleteConfirmation: values.skipDeleteConfirmation ?? false,
+    bulkConcurrency: values.bulkConcurrency ?? 4,
+    maxResponseChars: values.maxResponseChars ?? 40000,
+    auditLog:
+      values.auditLog === "off"
+        ? undefined
+        : {
+            path: values.auditLog ?? join(dataDir, "audit.jsonl"),
+            maxBytes: values.auditLogMaxBytes ?? 10 * 1024 * 1024,
+            maxFiles: values.auditLogMaxFiles ?? 5,
+          },
+    changeHistory: {
+      enabled: values.changeHistory !== "off",
+      path:
+        values.changeHistory === "memory"
+          ? undefined
+          : values.changeHistory ?? join(dataDir, "changes.json"),
+      limit: values.changeHistoryLimit ?? 100,
+    },
+  };
+}
+
+/** Hide all but the last four characters of a secret. */
+function maskSecret(secret: string): string {
+  return secret.length > 12 ? `****${secret.slice(-4)}` : "****";
+}
+
+/** The resolved configuration as JSON, with API keys and tokens masked. */
+export function formatConfig(config: RogerRogerConfig): string {
+  return JSON.stringify(
+    {
+      ...config,
+      workspaces: config.workspaces.map((workspace) => ({
+        ...workspace,
+        apiKey: maskSecret(workspace.apiKey),
+      })),
+      http: {
+        ...config.http,
+        authToken: config.http.authToken && maskSecret(config.http.authToken),
+      },
+    },
+    null,
+    2
+  );
+}
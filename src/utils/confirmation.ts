@@ -0,0 +1,43 @@
+import { randomBytes } from "node:crypto";
+
+interface PendingConfirmation {
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Short-lived, single-use tokens that gate destructive actions. A token is
+ * bound to the action key it was issued for.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  issue(key: string): { token: string; expiresAt: Date } {
+    this.prune();
+    const token = randomBytes(9).toString("base64url");
+    const expiresAt = Date.now() + this.ttlMs;
+    this.pending.set(key, { token, expiresAt });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  consume(key: string, token: string): boolean {
+    this.prune();
+    const pending = this.pending.get(key);
+    if (!pending || pending.token !== token) {
+      return false;
+    }
+    this.pending.delete(key);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, { expiresAt }] of this.pending) {
+      if (expiresAt <= now) {
+        this.pending.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+const DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Guess the delimiter from the header line: the candidate that occurs most
+ * often outside quotes. Spreadsheets exported with a European locale use
+ * semicolons.
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map<string, number>(DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === "\n" || char === "\r")) {
+      break;
+    } else if (!quoted && counts.has(char)) {
+      counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+  }
+
+  let best = DELIMITERS[0];
+  for (const [delimiter, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) {
+      best = delimiter;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields may contain delimiters, line
+ * breaks and doubled quotes) into rows of cells. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV ends inside a quoted field");
+  }
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Signed numbers and phone numbers such as `+49 30 1234567`, which a
+// spreadsheet reads as values rather than formulas.
+const SIGNED_NUMBER = /^[+-][\d\s().\/-]*\d[\d\s().\/-]*$/;
+
+/**
+ * Whether a spreadsheet would run the cell as a formula: it starts with =
+ * or @, a tab or carriage return, or + or - followed by anything other
+ * than a number.
+ */
+function isFormula(value: string): boolean {
+  return /^[=@\t\r]/.test(value) || (/^[+-]/.test(value) && !SIGNED_NUMBER.test(value));
+}
+
+/**
+ * Format rows of cells as CSV, quoting cells that contain the delimiter,
+ * quotes, line breaks or surrounding whitespace. Cells a spreadsheet would
+ * run as a formula get a leading `'`.
+ */
+export function toCsv(rows: string[][], delimiter = ","): string {
+  const quote = (value: string) => {
+    const cell = isFormula(value) ? `'${value}` : value;
+    return cell.includes(delimiter) || /["\r\n]|^\s|\s$/.test(cell)
+      ? `"${cell.replace(/"/g, '""')}"`
+      : cell;
+  };
+
+  return rows.map((row) => row.map(quote).join(delimiter)).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,164 @@
+export interface DuplicateCandidate {
+  id: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface DuplicateMatch {
+  ids: [string, string];
+  confidence: number;
+  reasons: string[];
+}
+
+export interface DuplicateGroup {
+  confidence: number;
+  ids: string[];
+  matches: DuplicateMatch[];
+}
+
+// How strongly each signal alone suggests two people are the same.
+const EMAIL_CONFIDENCE = 0.95;
+const PHONE_CONFIDENCE = 0.8;
+const NAME_CONFIDENCE = 0.7;
+const MIN_NAME_SIMILARITY = 0.85;
+
+export function normalizeEmail(email?: string): string | undefined {
+  const normalized = email?.trim().toLowerCase();
+  return normalized || undefined;
+}
+
+/**
+ * Digits only, compared on the last nine so "+49 30 1234567" and
+ * "030 1234567" match. Numbers shorter than seven digits are ignored.
+ */
+export function normalizePhone(phone?: string): string | undefined {
+  const digits = phone?.replace(/\D/g, "") ?? "";
+  return digits.length >= 7 ? digits.slice(-9) : undefined;
+}
+
+/**
+ * Lowercase, without accents or punctuation, with the words sorted so
+ * "Smith, Jane" and "Jane Smith" compare equal.
+ */
+export function normalizeName(name?: string): string | undefined {
+  const words = (name ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .sort();
+  return words.length > 0 ? words.join(" ") : undefined;
+}
+
+/** Similarity of two strings from 0 to 1, based on the edit distance. */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Compare every pair of people on normalized email, phone and name, and
+ * group the pairs at or above minConfidence. The confidence of a pair
+ * combines its signals as independent evidence; a group reports its
+ * strongest pair. Groups are sorted by confidence, highest first.
+ */
+export function findDuplicateGroups(
+  people: DuplicateCandidate[],
+  minConfidence: number
+): DuplicateGroup[] {
+  const normalized = people.map((person) => ({
+    id: person.id,
+    email: normalizeEmail(person.email),
+    phone: normalizePhone(person.phone),
+    name: normalizeName(person.name),
+  }));
+
+  const matches: DuplicateMatch[] = [];
+  for (let i = 0; i < normalized.length; i++) {
+    for (let j = i + 1; j < normalized.length; j++) {
+      const a = normalized[i];
+      const b = normalized[j];
+      const signals: { confidence: number; reason: string }[] = [];
+
+      if (a.email && a.email === b.email) {
+        signals.push({ confidence: EMAIL_CONFIDENCE, reason: `same email (${a.email})` });
+      }
+      if (a.phone && a.phone === b.phone) {
+        signals.push({ confidence: PHONE_CONFIDENCE, reason: "same phone number" });
+      }
+      if (a.name && b.name && Math.abs(a.name.length - b.name.length) <= a.name.length / 4 + 1) {
+        const score = similarity(a.name, b.name);
+        if (score >= MIN_NAME_SIMILARITY) {
+          signals.push({
+            confidence: NAME_CONFIDENCE * score,
+            reason: score === 1 ? "same name" : `similar names (${round(score)})`,
+          });
+        }
+      }
+      if (signals.length === 0) {
+        continue;
+      }
+
+      const confidence = round(
+        1 - signals.reduce((remaining, signal) => remaining * (1 - signal.confidence), 1)
+      );
+      if (confidence >= minConfidence) {
+        matches.push({
+          ids: [a.id, b.id],
+          confidence,
+          reasons: signals.map(({ reason }) => reason),
+        });
+      }
+    }
+  }
+
+  // Union-find over the matched pairs.
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+  for (const { ids } of matches) {
+    parent.set(find(ids[0]), find(ids[1]));
+  }
+
+  const groups = new Map<string, DuplicateGroup>();
+  for (const match of matches) {
+    const root = find(match.ids[0]);
+    const group = groups.get(root) ?? { confidence: 0, ids: [], matches: [] };
+    group.matches.push(match);
+    group.confidence = Math.max(group.confidence, match.confidence);
+    for (const id of match.ids) {
+      if (!group.ids.includes(id)) {
+        group.ids.push(id);
+      }
+    }
+    groups.set(root, group);
+  }
+
+  return [...groups.values()].sort((a, b) => b.confidence - a.confidence);
+}
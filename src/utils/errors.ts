@@ -0,0 +1,120 @@
+export type ApiErrorCategory =
+  | "auth"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "server_error"
+  | "request_failed";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const HINTS: Record<ApiErrorCategory, string> = {
+  auth:
+    "Check that ROGERROGER_API_KEY is a valid API key with access to this record. Keys can be managed at https://app.rogerroger.io/admin/api.",
+  not_found:
+    "The record does not exist or was deleted. Look up the correct ID with the matching list or search tool.",
+  validation: "Fix the fields listed above and call the tool again.",
+  rate_limited:
+    "The RogerRoger rate limit was reached. Wait a moment before retrying, or lower ROGERROGER_RATE_LIMIT.",
+  server_error: "RogerRoger had a server problem. Try again in a little while.",
+  request_failed: "Check the arguments and try again.",
+};
+
+export function categorizeStatus(status: number): ApiErrorCategory {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404 || status === 410) return "not_found";
+  if (status === 400 || status === 422) return "validation";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "request_failed";
+}
+
+/**
+ * A non-OK response from the RogerRoger API, with the JSON error body parsed
+ * into a message and per-field details where the API provided them.
+ */
+export class ApiError extends Error {
+  readonly category: ApiErrorCategory;
+  readonly detail: string;
+  readonly fieldErrors: FieldError[];
+
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+    /** How long the API asked to wait before retrying (Retry-After). */
+    readonly retryAfterMs?: number
+  ) {
+    const detail = extractMessage(body) ?? `Request failed with status ${status}`;
+    super(`HTTP ${status}: ${detail}`);
+    this.name = "ApiError";
+    this.category = categorizeStatus(status);
+    this.detail = detail;
+    this.fieldErrors = extractFieldErrors(body);
+  }
+
+  get hint(): string {
+    if (this.category === "rate_limited" && this.retryAfterMs !== undefined) {
+      return `The RogerRoger rate limit was reached. The API asked to wait ${Math.ceil(
+        this.retryAfterMs / 1000
+      )} seconds before retrying.`;
+    }
+    return HINTS[this.category];
+  }
+
+  static fromResponseText(status: number, text: string, retryAfterMs?: number): ApiError {
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Keep the raw text when the body is not JSON
+    }
+    return new ApiError(status, body, retryAfterMs);
+  }
+}
+
+function extractMessage(body: unknown): string | undefined {
+  if (typeof body === "string") {
+    return body.trim() || undefined;
+  }
+  if (!body || typeof body !== "object") {
+    return undefined;
+  }
+  const record = body as Record<string, unknown>;
+  for (const key of ["hydra:description", "detail", "message", "error", "hydra:title", "title"]) {
+    if (typeof record[key] === "string" && record[key]) {
+      return record[key] as string;
+    }
+  }
+  return undefined;
+}
+
+function extractFieldErrors(body: unknown): FieldError[] {
+  if (!body || typeof body !== "object") {
+    return [];
+  }
+  const record = body as Record<string, unknown>;
+
+  // API Platform style: { violations: [{ propertyPath, message }] }
+  if (Array.isArray(record.violations)) {
+    return record.violations.map((violation: any) => ({
+      field: String(violation?.propertyPath ?? violation?.field ?? ""),
+      message: String(violation?.message ?? violation?.title ?? ""),
+    }));
+  }
+
+  // { errors: { field: ["message", ...] } }
+  if (record.errors && typeof record.errors === "object" && !Array.isArray(record.errors)) {
+    const errors = Object.entries(record.errors as Record<string, unknown>);
+    return errors.flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map((message) => ({
+        field,
+        message: String(message),
+      }))
+    );
+  }
+
+  return [];
+}
@@ -0,0 +1,69 @@
+import { toCsv } from "./csv.js";
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Flatten nested objects into dot-separated keys (`address.city`). Arrays of
+ * plain values are joined with ", "; arrays holding objects are kept as JSON.
+ */
+export function flattenRecord(
+  value: Record<string, unknown>,
+  prefix = "",
+  result: Record<string, unknown> = {}
+): Record<string, unknown> {
+  for (const [key, item] of Object.entries(value)) {
+    const path = `${prefix}${key}`;
+    if (Array.isArray(item)) {
+      result[path] = item.some((element) => typeof element === "object" && element !== null)
+        ? JSON.stringify(item)
+        : item.join(", ");
+    } else if (typeof item === "object" && item !== null) {
+      flattenRecord(item as Record<string, unknown>, `${path}.`, result);
+    } else {
+      result[path] = item;
+    }
+  }
+  return result;
+}
+
+/**
+ * Serialize records in the given format. Records are flattened first; the
+ * selected columns may name a flattened key or a nested object, which
+ * selects all of its keys. Without columns, every key that occurs is used.
+ */
+export function serializeRecords(
+  records: Record<string, unknown>[],
+  format: ExportFormat,
+  columns?: string[]
+): { content: string; columns: string[] } {
+  const rows = records.map((record) => flattenRecord(record));
+  const keys = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const header = columns
+    ? columns.flatMap((column) => {
+        const nested = keys.filter((key) => key.startsWith(`${column}.`));
+        return keys.includes(column) || nested.length === 0 ? [column] : nested;
+      })
+    : keys;
+  const pick = (row: Record<string, unknown>) =>
+    Object.fromEntries(header.map((key) => [key, row[key] ?? null]));
+
+  let content: string;
+  switch (format) {
+    case "csv":
+      content = toCsv([
+        header,
+        ...rows.map((row) => header.map((key) => (row[key] == null ? "" : String(row[key])))),
+      ]);
+      break;
+    case "ndjson":
+      content = rows.map((row) => `${JSON.stringify(pick(row))}\n`).join("");
+      break;
+    case "json":
+      content = `${JSON.stringify(rows.map(pick), null, 2)}\n`;
+      break;
+  }
+
+  return { content, columns: header };
+}
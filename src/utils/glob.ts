@@ -0,0 +1,24 @@
+/**
+ * Match a name against a glob pattern supporting `*` and `?`.
+ */
+export function matchesGlob(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+/**
+ * Split a comma-separated list of glob patterns, ignoring empty entries.
+ */
+export function parsePatternList(value?: string): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+}
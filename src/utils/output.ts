@@ -0,0 +1,231 @@
+import { flattenRecord } from "./export.js";
+
+export const OUTPUT_FORMATS = ["json", "compact", "markdown_table"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// JSON-LD and Hydra keys that describe the response rather than the data.
+const METADATA_KEYS = new Set(["@context", "@id", "@type", "hydra:view", "hydra:search"]);
+
+const RENAMED_KEYS: Record<string, string> = {
+  "hydra:member": "items",
+  "hydra:totalItems": "totalItems",
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRecordList(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+}
+
+function pickFields(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = record.id !== undefined ? { id: record.id } : {};
+
+  for (const field of fields) {
+    const path = field.split(".");
+    let value: unknown = record;
+    for (const key of path) {
+      value = isPlainObject(value) ? value[key] : undefined;
+    }
+    if (value === undefined) {
+      continue;
+    }
+
+    let target = result;
+    for (const key of path.slice(0, -1)) {
+      target[key] = isPlainObject(target[key]) ? target[key] : {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Keep only the given fields of every record in a response. Records are
+ * objects with an id and the items of lists; wrappers such as collections
+ * or `{ person, tasks }` are kept as they are. The id is always kept.
+ */
+export function projectFields(data: unknown, fields: string[]): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item) => (isPlainObject(item) ? pickFields(item, fields) : item));
+  }
+  if (!isPlainObject(data)) {
+    return data;
+  }
+  if (data.id !== undefined) {
+    return pickFields(data, fields);
+  }
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, projectFields(value, fields)])
+  );
+}
+
+/**
+ * Drop JSON-LD metadata and empty values, and give Hydra collection keys
+ * plain names.
+ */
+function simplify(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(simplify);
+  }
+  if (!isPlainObject(data)) {
+    return data;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (
+      METADATA_KEYS.has(key) ||
+      value === null ||
+      value === undefined ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0)
+    ) {
+      continue;
+    }
+    result[RENAMED_KEYS[key] ?? key] = simplify(value);
+  }
+  return result;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return String(value).replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function renderTable(header: string[], rows: unknown[][]): string {
+  return [
+    `| ${header.map(formatCell).join(" | ")} |`,
+    `| ${header.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(formatCell).join(" | ")} |`),
+  ].join("\n");
+}
+
+function renderMarkdown(data: unknown, depth = 0): string {
+  if (isRecordList(data)) {
+    const rows = data.map((record) => flattenRecord(record));
+    const header = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    return renderTable(header, rows.map((row) => header.map((key) => row[key])));
+  }
+  if (Array.isArray(data)) {
+    return data.length > 0 ? data.map(formatCell).join(", ") : "_None_";
+  }
+  if (!isPlainObject(data)) {
+    return formatCell(data);
+  }
+  if (data.id !== undefined) {
+    return renderTable(["Field", "Value"], Object.entries(flattenRecord(data)));
+  }
+
+  // A wrapper such as a collection or `{ person, tasks }`: plain values
+  // first, then a section per record or list.
+  const lines: string[] = [];
+  const sections: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (isPlainObject(value) || isRecordList(value)) {
+      sections.push(`${"#".repeat(depth + 3)} ${key}\n\n${renderMarkdown(value, depth + 1)}`);
+    } else {
+      lines.push(`**${key}**: ${renderMarkdown(value, depth + 1)}`);
+    }
+  }
+  return [lines.join("\n"), ...sections].filter(Boolean).join("\n\n");
+}
+
+export function formatOutput(data: unknown, format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(data, null, 2);
+    case "compact":
+      return JSON.stringify(simplify(data));
+    case "markdown_table":
+      return renderMarkdown(simplify(data));
+  }
+}
+
+/** Path (keys from the root) of the longest list of records in the data. */
+function findLongestList(data: unknown, path: string[] = []): string[] | undefined {
+  let best: { path: string[]; length: number } | undefined;
+  const visit = (value: unknown, current: string[]) => {
+    if (isRecordList(value)) {
+      if (!best || value.length > best.length) {
+        best = { path: current, length: value.length };
+      }
+      return;
+    }
+    if (isPlainObject(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, [...current, key]);
+      }
+    }
+  };
+  visit(data, path);
+  return best?.path;
+}
+
+function withListLength(data: unknown, path: string[], length: number): unknown {
+  if (path.length === 0) {
+    return (data as unknown[]).slice(0, length);
+  }
+  const [key, ...rest] = path;
+  const record = data as Record<string, unknown>;
+  return { ...record, [key]: withListLength(record[key], rest, length) };
+}
+
+export interface FittedOutput {
+  text: string;
+  truncated?: { list: string; shown: number; total: number };
+  cut?: boolean;
+}
+
+/**
+ * Format the data within maxChars characters (0 means no limit). When it
+ * does not fit, the longest list of records is shortened to as many items
+ * as fit, so the output stays valid; only a single oversized record is cut
+ * off mid-text.
+ */
+export function formatWithinBudget(
+  data: unknown,
+  format: OutputFormat,
+  maxChars: number
+): FittedOutput {
+  const text = formatOutput(data, format);
+  if (maxChars <= 0 || text.length <= maxChars) {
+    return { text };
+  }
+
+  const path = findLongestList(data);
+  if (path) {
+    let list: unknown = data;
+    for (const key of path) {
+      list = (list as Record<string, unknown>)[key];
+    }
+    const total = (list as unknown[]).length;
+
+    let low = 0;
+    let high = total - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (formatOutput(withListLength(data, path, middle), format).length <= maxChars) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const fitted = formatOutput(withListLength(data, path, low), format);
+    if (low > 0 && fitted.length <= maxChars) {
+      return {
+        text: fitted,
+        truncated: { list: path.join(".") || "items", shown: low, total },
+      };
+    }
+  }
+
+  return { text: text.slice(0, maxChars), cut: true };
+}
@@ -0,0 +1,30 @@
+export interface CollectionPage {
+  items: any[];
+  totalItems?: number;
+  /** Whether the page links to a next one; unknown without a Hydra view. */
+  hasNext?: boolean;
+}
+
+/**
+ * Pull the items and total count out of a collection response. The API
+ * answers with either a Hydra (JSON-LD) collection or a plain JSON array.
+ */
+export function extractCollection(data: any): CollectionPage {
+  if (Array.isArray(data)) {
+    return { items: data };
+  }
+
+  const items =
+    data?.["hydra:member"] ?? data?.member ?? data?.items ?? data?.data ?? [];
+  const totalItems = data?.["hydra:totalItems"] ?? data?.totalItems ?? data?.total;
+
+  const view = data?.["hydra:view"] ?? data?.view;
+  const hasNext =
+    view && typeof view === "object" ? Boolean(view["hydra:next"] ?? view.next) : undefined;
+
+  return {
+    items: Array.isArray(items) ? items : [],
+    totalItems: typeof totalItems === "number" ? totalItems : undefined,
+    hasNext,
+  };
+}
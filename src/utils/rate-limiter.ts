@@ -0,0 +1,104 @@
+import { sleep } from "./retry.js";
+
+/**
+ * Token bucket shared by every outgoing request. Callers are served in the
+ * order they asked for a token.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number
+  ) {
+    // NaN would make every wait NaN ms, a busy loop.
+    if (!Number.isFinite(ratePerSecond) || ratePerSecond < 0) {
+      throw new RangeError(`ratePerSecond must be a number >= 0, got ${ratePerSecond}`);
+    }
+    if (ratePerSecond > 0 && !(capacity >= 1)) {
+      throw new RangeError(`capacity must be at least 1, got ${capacity}`);
+    }
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return Promise.resolve();
+    }
+    const next = this.tail.then(() => this.waitForToken());
+    this.tail = next;
+    return next;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * FIFO queue that caps how many requests are in flight at once.
+ */
+export class ConcurrencyQueue {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrency: number) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 0) {
+      throw new RangeError(`maxConcurrency must be an integer >= 0, got ${maxConcurrency}`);
+    }
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  async run<T>(label: string, task: () => Promise<T>): Promise<T> {
+    await this.acquire(label);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(label: string): Promise<void> {
+    if (this.maxConcurrency <= 0 || this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    console.error(
+      `[RogerRoger] Queued ${label} (${this.active} in flight, ${this.waiting.length + 1} waiting)`
+    );
+    return new Promise((resolve) => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+}
@@ -0,0 +1,73 @@
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Reject options that would retry forever (a NaN count never reaches its
+ * limit) or wait for a negative or NaN time.
+ */
+export function assertValidRetryOptions(options: RetryOptions): void {
+  const { maxRetries, baseDelayMs, maxDelayMs } = options;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new RangeError(`maxRetries must be an integer >= 0, got ${maxRetries}`);
+  }
+  for (const [name, value] of Object.entries({ baseDelayMs, maxDelayMs })) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new RangeError(`${name} must be a number >= 0, got ${value}`);
+    }
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method.toUpperCase());
+}
+
+/**
+ * Decide whether a failed response may be retried. Non-idempotent requests
+ * are only retried on 429, where the API guarantees nothing was processed.
+ */
+export function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  if (!idempotent) {
+    return status === 429;
+  }
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter, capped at maxDelayMs.
+ */
+export function computeBackoffDelay(attempt: number, options: RetryOptions): number {
+  const exponential = options.baseDelayMs * 2 ** attempt;
+  const capped = Math.min(options.maxDelayMs, exponential);
+  return Math.floor(Math.random() * capped);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,140 @@
+type JsonType = "object" | "string" | "number" | "integer" | "boolean" | "array";
+
+export interface JsonSchema {
+  // Several types accept a value matching any of them
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  format?: "date" | "date-time";
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonType | JsonType[]): boolean {
+  if (Array.isArray(type)) {
+    return type.some((item) => matchesType(value, item));
+  }
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isValidDate(value: string, format: "date" | "date-time"): boolean {
+  // Dates are also accepted where a date-time is expected.
+  const pattern = format === "date" ? ISO_DATE : ISO_DATE_TIME;
+  return (
+    (pattern.test(value) || ISO_DATE.test(value)) &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Validate a value against the subset of JSON Schema used by the tool
+ * definitions. Returns one message per problem, each naming the field.
+ * Objects reject unknown properties unless additionalProperties is true.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = ""): string[] {
+  const field = path || "arguments";
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const expected = [schema.type]
+      .flat()
+      .map((type) => (type === "integer" ? "an integer" : `a ${type}`))
+      .join(" or ");
+    return [`${field} must be ${expected}, got ${describeType(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.map((item) => JSON.stringify(item)).join(", ");
+    errors.push(`${field} must be one of ${allowed}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${field} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${field} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${field} must not be empty`);
+    }
+    if (schema.format && !isValidDate(value, schema.format)) {
+      errors.push(
+        `${field} must be an ISO ${schema.format === "date" ? "date (YYYY-MM-DD)" : "date-time"}`
+      );
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${field} must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${field} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items as JsonSchema, `${field}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === "object" && typeof value === "object" && value !== null) {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const prefix = path ? `${path}.` : "";
+
+    for (const name of schema.required ?? []) {
+      if (record[name] === undefined || record[name] === null) {
+        errors.push(`${prefix}${name} is required`);
+      }
+    }
+
+    for (const [name, item] of Object.entries(record)) {
+      const propertySchema = properties[name];
+      if (!propertySchema) {
+        if (schema.additionalProperties !== true) {
+          errors.push(`${prefix}${name} is not a known property`);
+        }
+        continue;
+      }
+      if (item !== undefined) {
+        errors.push(...validateSchema(item, propertySchema, `${prefix}${name}`));
+      }
+    }
+  }
+
+  return errors;
+}